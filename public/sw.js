@@ -0,0 +1,86 @@
+/* eslint-disable no-restricted-globals */
+/**
+ * Service worker for offline use at the venue
+ * - GLB models are cache-first; the app posts the model URLs to precache after registering
+ * - Other same-origin requests (app shell, JS, CSS, JSON) are network-first with the cache as fallback
+ * Booth data is cached by the app itself (IndexedDB), so cross-origin requests pass through.
+ */
+const CACHE_VERSION = 'v1';
+const MODEL_CACHE = `models-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `runtime-${CACHE_VERSION}`;
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key !== MODEL_CACHE && key !== RUNTIME_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// { type: 'PRECACHE_MODELS', urls: [...] } from the app
+self.addEventListener('message', event => {
+  if (!event.data || event.data.type !== 'PRECACHE_MODELS' || !Array.isArray(event.data.urls)) return;
+
+  event.waitUntil(
+    caches.open(MODEL_CACHE).then(cache =>
+      Promise.all(event.data.urls.map(async url => {
+        if (await cache.match(url)) return;
+        try {
+          await cache.add(url);
+          console.log(`📦 Precached model ${url}`);
+        } catch (error) {
+          console.warn(`⚠️ Could not precache model ${url}:`, error);
+        }
+      }))
+    )
+  );
+});
+
+const isModelRequest = url => url.pathname.endsWith('.glb');
+
+const cacheFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const networkFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch: request.mode === 'navigate' });
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (isModelRequest(url)) {
+    event.respondWith(cacheFirst(request, MODEL_CACHE));
+  } else {
+    event.respondWith(networkFirst(request, RUNTIME_CACHE));
+  }
+});
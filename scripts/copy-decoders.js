@@ -0,0 +1,26 @@
+#!/usr/bin/env node
+/**
+ * Copy the Draco and KTX2 (Basis) decoders shipped with three into public/decoders,
+ * so compressed models load without fetching decoders from a CDN (the venue may be offline).
+ * Runs before `npm start` and `npm run build`; the copies are not committed.
+ *
+ *   node scripts/copy-decoders.js
+ */
+const fs = require('fs');
+const path = require('path');
+
+const threeLibs = path.join(__dirname, '..', 'node_modules', 'three', 'examples', 'jsm', 'libs');
+const target = path.join(__dirname, '..', 'public', 'decoders');
+
+const decoders = [
+  { from: path.join(threeLibs, 'draco', 'gltf'), to: path.join(target, 'draco'), files: ['draco_decoder.js', 'draco_decoder.wasm', 'draco_wasm_wrapper.js'] },
+  { from: path.join(threeLibs, 'basis'), to: path.join(target, 'basis'), files: ['basis_transcoder.js', 'basis_transcoder.wasm'] }
+];
+
+decoders.forEach(({ from, to, files }) => {
+  fs.mkdirSync(to, { recursive: true });
+  files.forEach(file => {
+    fs.copyFileSync(path.join(from, file), path.join(to, file));
+  });
+  console.log(`📦 Copied ${files.length} decoder files to ${path.relative(process.cwd(), to)}`);
+});
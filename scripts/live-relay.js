@@ -0,0 +1,118 @@
+#!/usr/bin/env node
+/**
+ * Live booth update relay
+ * Polls a booth sheet (sheetjson-style JSON array of rows) and pushes changes to
+ * connected apps over Server-Sent Events, so browsers don't each poll the sheet.
+ *
+ *   node scripts/live-relay.js <sheet-json-url> [--port 8787] [--interval 5000]
+ *
+ * Point an event at it with REACT_APP_LIVE_UPDATES="energy=sse:http://localhost:8787/events"
+ * or ?live.energy=sse:http://localhost:8787/events
+ */
+const http = require('http');
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? fallback : args[index + 1];
+};
+
+const sourceUrl = args.find(arg => /^https?:\/\//.test(arg));
+const port = parseInt(option('port', '8787'), 10);
+const intervalMs = parseInt(option('interval', '5000'), 10);
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+if (!sourceUrl) {
+  console.error('Usage: node scripts/live-relay.js <sheet-json-url> [--port 8787] [--interval 5000]');
+  process.exit(1);
+}
+
+const clients = new Set();
+let rowsById = new Map();
+let hasRows = false; // Clients only get a snapshot once the sheet has been read
+let failures = 0;
+
+const rowId = row => String(row.id ?? '').trim();
+
+const send = (client, message) => {
+  client.write(`data: ${JSON.stringify(message)}\n\n`);
+};
+
+const broadcast = message => {
+  clients.forEach(client => send(client, message));
+};
+
+// Compare fresh rows with the last known rows and push only what changed
+const applyRows = rows => {
+  const nextRowsById = new Map(rows.filter(rowId).map(row => [rowId(row), row]));
+  const changedRows = [];
+  nextRowsById.forEach((row, id) => {
+    if (JSON.stringify(rowsById.get(id)) !== JSON.stringify(row)) {
+      changedRows.push(row);
+    }
+  });
+  const removedIds = Array.from(rowsById.keys()).filter(id => !nextRowsById.has(id));
+
+  rowsById = nextRowsById;
+  if (!hasRows) {
+    hasRows = true;
+    broadcast({ type: 'snapshot', rows: Array.from(rowsById.values()) });
+  } else if (changedRows.length > 0 || removedIds.length > 0) {
+    console.log(`📡 ${changedRows.length} changed, ${removedIds.length} removed → ${clients.size} clients`);
+    broadcast({ type: 'update', rows: changedRows, removedIds });
+  }
+};
+
+const poll = async () => {
+  let delay = intervalMs;
+  try {
+    const response = await fetch(sourceUrl, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+    const rows = await response.json();
+    if (!Array.isArray(rows)) {
+      throw new Error('Expected a JSON array of rows');
+    }
+    failures = 0;
+    applyRows(rows);
+  } catch (error) {
+    failures++;
+    delay = Math.min(MAX_BACKOFF_MS, intervalMs * Math.pow(2, failures));
+    console.warn(`⚠️ Fetching ${sourceUrl} failed (${error.message}), retrying in ${Math.round(delay / 1000)}s`);
+  }
+  setTimeout(poll, delay);
+};
+
+const server = http.createServer((request, response) => {
+  if (request.url !== '/events') {
+    response.writeHead(404, { 'Access-Control-Allow-Origin': '*' });
+    response.end();
+    return;
+  }
+
+  response.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'Access-Control-Allow-Origin': '*'
+  });
+  clients.add(response);
+  if (hasRows) {
+    send(response, { type: 'snapshot', rows: Array.from(rowsById.values()) });
+  }
+  console.log(`🔌 Client connected (${clients.size} total)`);
+
+  request.on('close', () => {
+    clients.delete(response);
+    console.log(`🔌 Client disconnected (${clients.size} total)`);
+  });
+});
+
+// Comments keep idle connections open through proxies
+setInterval(() => clients.forEach(client => client.write(': keep-alive\n\n')), 25000);
+
+server.listen(port, () => {
+  console.log(`📡 Relaying ${sourceUrl} on http://localhost:${port}/events (polling every ${intervalMs / 1000}s)`);
+  poll();
+});
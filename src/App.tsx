@@ -1,14 +1,83 @@
-import React, { useState } from 'react';
-import WebGLScene from './WebGLScene';
+import React, { useRef, useState } from 'react';
+import WebGLScene, { FocusRequest } from './WebGLScene';
 import AreaSelector from './components/AreaSelector';
-// import BoothStatus from './components/BoothStatus'; // Hidden statistics menu
+import BoothStatus from './components/BoothStatus';
+import DataQualityPanel from './components/DataQualityPanel';
+import BoothSearch from './components/BoothSearch';
+import ExhibitorPanel from './components/ExhibitorPanel';
+import StatusLegend from './components/StatusLegend';
+import StatusChangeToasts from './components/StatusChangeToasts';
+import DataStatusBanner from './components/DataStatusBanner';
+import MeshDebugPanel from './components/MeshDebugPanel';
+import AccessibleBoothList from './components/AccessibleBoothList';
+import ViewpointEditorPanel from './components/ViewpointEditorPanel';
 import { useAreaData } from './hooks/useAreaData';
+import { createMeshMappingIssues } from './services/boothValidation';
+import { useHashRoute } from './hooks/useHashRoute';
+import { CameraPosition, Viewpoint } from './types/event';
+import { Booth, StatusFilter } from './types/booth';
+import { MeshMappingReport } from './types/dataQuality';
+import { findAreaForBooth, getAreaConfig, getAreaName, matchesBoothPrefixes } from './config/eventRegistry';
+import { MeshDebugManager } from './utils/meshDebugUtils';
+import { ViewpointEditorManager } from './utils/viewpointUtils';
 import './App.css';
 
+// Mesh mapping debug view for model authors, read once per page load
+const SHOW_MESH_DEBUG = MeshDebugManager.isEnabled();
+// Camera viewpoint editor for event setup, read once per page load
+const SHOW_VIEWPOINT_EDITOR = ViewpointEditorManager.isEnabled();
+
 const App: React.FC = () => {
-  const [currentArea, setCurrentArea] = useState<string>('all_in_one');
+  const { route, navigate } = useHashRoute();
+  const currentArea = route.areaId;
   const [showExhibitorDetails, setShowExhibitorDetails] = useState<boolean>(false);
-  const { data: areaData, loading, error } = useAreaData(currentArea);
+  const [showLogoDecals, setShowLogoDecals] = useState<boolean>(false);
+  const [showStatistics, setShowStatistics] = useState<boolean>(false);
+  const [meshMappingReport, setMeshMappingReport] = useState<MeshMappingReport | null>(null);
+  const [showBoothDetails, setShowBoothDetails] = useState<boolean>(true); // Exhibitor panel for the selected booth
+  const [keyboardBoothId, setKeyboardBoothId] = useState<string | null>(null); // Booth reached with Tab in the scene
+  const [focusRequest, setFocusRequest] = useState<FocusRequest | null>(null);
+  const cameraViewReaderRef = useRef<(() => CameraPosition | null) | null>(null); // Live camera view of the scene
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>({ statuses: [], mode: 'dim' });
+  const { data: areaData, loading, reloading, error, report, changes, dataAsOf, baselineBooths, retry } = useAreaData(currentArea);
+
+  // Switching area starts from the area's own starting camera with nothing selected
+  const handleAreaChange = (areaId: string) => {
+    navigate({ areaId, boothId: null, camera: null });
+  };
+
+  // Each booth selection gets its own history entry so back/forward steps through them
+  // Touch taps select without the exhibitor panel, which a long press opens
+  const handleBoothSelect = (boothId: string | null, showDetails: boolean = true) => {
+    setShowBoothDetails(showDetails);
+    navigate({ ...route, boothId });
+  };
+
+  // Search results switch to the area showing the booth, then fly to and highlight it
+  const handleSearchSelect = (booth: Booth) => {
+    const areaId = findAreaForBooth(booth.id, currentArea);
+    console.log(`🔍 Search selected booth ${booth.id} in area ${areaId}`);
+    setShowBoothDetails(true);
+    navigate({ areaId, boothId: booth.id, camera: null });
+    setFocusRequest({ boothId: booth.id, requestId: Date.now() });
+  };
+
+  // Camera moves only update the current entry to keep history usable
+  const handleCameraViewChange = (camera: CameraPosition) => {
+    navigate({ ...route, camera }, { replace: true });
+  };
+
+  // Previewing a viewpoint moves the camera through the URL like any other camera view
+  const handleViewpointPreview = (viewpoint: Viewpoint) => {
+    console.log(`📹 Previewing viewpoint "${viewpoint.name}"`);
+    handleCameraViewChange(viewpoint);
+  };
+
+  const selectedBooth = areaData?.booths.find(booth => booth.id === route.boothId) || null;
+  // Booths shown by the current area's model (the combined model shows the whole event)
+  const areaBooths = areaData?.booths.filter(booth =>
+    matchesBoothPrefixes(booth.id, getAreaConfig(currentArea)?.boothIdPrefixes)
+  ) || [];
 
   if (loading) {
     return (
@@ -24,35 +93,75 @@ const App: React.FC = () => {
     );
   }
 
-  if (error) {
-    return (
-      <div className="App" style={{ 
-        display: 'flex', 
-        justifyContent: 'center', 
-        alignItems: 'center', 
-        height: '100vh',
-        fontSize: '18px',
-        color: 'red'
-      }}>
-        Error: {error}
-      </div>
-    );
-  }
-
   return (
     <div className="App" style={{ position: 'relative', height: '100vh' }}>
+      <DataStatusBanner dataAsOf={dataAsOf} error={error} retrying={reloading} onRetry={retry} />
       <AreaSelector 
         currentArea={currentArea} 
-        onAreaChange={setCurrentArea}
+        onAreaChange={handleAreaChange}
         showExhibitorDetails={showExhibitorDetails}
         onToggleExhibitorDetails={setShowExhibitorDetails}
+        showLogoDecals={showLogoDecals}
+        onToggleLogoDecals={setShowLogoDecals}
+        showStatistics={showStatistics}
+        onToggleStatistics={setShowStatistics}
       />
-      {/* <BoothStatus areaData={areaData} /> */} {/* Hidden statistics menu */}
+      {showStatistics && <BoothStatus areaData={areaData} currentArea={currentArea} baselineBooths={baselineBooths} />}
+      {areaData && (
+        <BoothSearch
+          booths={areaData.booths}
+          currentArea={currentArea}
+          onSelect={handleSearchSelect}
+        />
+      )}
       <WebGLScene
         areaData={areaData} 
         currentArea={currentArea}
         showExhibitorDetails={showExhibitorDetails}
+        showLogoDecals={showLogoDecals}
+        statusFilter={statusFilter}
+        statusChanges={changes}
+        onMeshMappingComplete={setMeshMappingReport}
+        selectedBoothId={route.boothId}
+        cameraView={route.camera}
+        onBoothSelect={handleBoothSelect}
+        onCameraViewChange={handleCameraViewChange}
+        focusRequest={focusRequest}
+        showMeshDebug={SHOW_MESH_DEBUG}
+        onBoothFocus={setKeyboardBoothId}
+        cameraViewReaderRef={cameraViewReaderRef}
+      />
+      <AccessibleBoothList
+        booths={areaBooths}
+        selectedBoothId={route.boothId}
+        focusedBoothId={keyboardBoothId}
+        onSelect={handleSearchSelect}
+      />
+      <StatusChangeToasts changes={changes} />
+      <StatusLegend
+        booths={areaBooths}
+        filter={statusFilter}
+        onFilterChange={setStatusFilter}
+      />
+      <ExhibitorPanel
+        booth={showBoothDetails ? selectedBooth : null}
+        areaName={getAreaName(selectedBooth ? findAreaForBooth(selectedBooth.id, currentArea) : currentArea)}
+        onClose={() => handleBoothSelect(null)}
       />
+      {SHOW_MESH_DEBUG && <MeshDebugPanel report={meshMappingReport} areaId={currentArea} />}
+      {SHOW_VIEWPOINT_EDITOR && (
+        <ViewpointEditorPanel
+          areaId={currentArea}
+          getCurrentCamera={() => cameraViewReaderRef.current?.() ?? null}
+          onPreview={handleViewpointPreview}
+        />
+      )}
+      {process.env.NODE_ENV === 'development' && (
+        <DataQualityPanel
+          report={report}
+          meshIssues={createMeshMappingIssues(meshMappingReport, currentArea)}
+        />
+      )}
     </div>
   );
 }
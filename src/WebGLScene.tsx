@@ -1,644 +1,800 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import * as THREE from 'three';
-import { AreaData } from './types/booth';
-import { GLTF, GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader";
+import { AreaData, BoothStatusChange, StatusFilter } from './types/booth';
+import { CameraPosition, TourScript, TourStep } from './types/event';
+import { MeshMappingReport } from './types/dataQuality';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
-import { CanvasTextRenderer } from './utils/canvasUtils';
+import { CanvasTextRenderer, TextConfig } from './utils/canvasUtils';
 import { MeshManager } from './utils/meshUtils';
+import { MeshDebugManager } from './utils/meshDebugUtils';
 import { MaterialManager } from './utils/materialUtils';
 import { CameraAnimator } from './utils/cameraUtils';
 import { CalloutManager } from './utils/calloutUtils';
+import { LogoManager } from './utils/logoUtils';
+import { SceneEffects } from './utils/effectsUtils';
+import { SceneManager } from './utils/sceneUtils';
+import { DEFAULT_SPOTLIGHT, TourEngine, TourState, interleaveSpotlights } from './utils/tourUtils';
+import { PointerGestureTracker, getTapPickTolerance } from './utils/pointerUtils';
+import ModelLoadingOverlay, { ModelLoadState } from './components/ModelLoadingOverlay';
+import TourCaption from './components/TourCaption';
+import {
+  getAreaConfig,
+  getAreaName,
+  getFallbackModelPath,
+  getMeshMapping,
+  getModelLods,
+  getModelPath,
+  getModelScale,
+  getTourIdleTimeout,
+  getTourScript,
+  matchesBoothPrefixes
+} from './config/eventRegistry';
+import { getStatusStyle } from './config/statusTheme';
 // CSS3D renderer no longer needed - using sprites instead
 
+// Milliseconds without camera changes after an interaction before the view counts as settled (controls use damping)
+const CAMERA_SETTLE_DELAY = 150;
+
 interface WebGLSceneProps {
   areaData: AreaData | null;
   currentArea: string;
   showExhibitorDetails: boolean;
+  showLogoDecals?: boolean; // Show exhibitor logos on top of their booths
+  statusFilter?: StatusFilter | null; // Dim or hide booths that don't have one of the given statuses
+  statusChanges?: BoothStatusChange[]; // Recent status changes; new ones are animated on their booths
+  onMeshMappingComplete?: (report: MeshMappingReport) => void; // Reports booths without a mesh, ambiguous and orphan meshes
+  selectedBoothId?: string | null; // Booth whose info callout should be open (e.g. from the URL)
+  cameraView?: CameraPosition | null; // Camera position/target to show instead of the starting position
+  onBoothSelect?: (boothId: string | null, showDetails: boolean) => void; // Called when the user opens or closes a booth callout; touch taps select without details
+  onCameraViewChange?: (cameraView: CameraPosition) => void; // Called when the user stops moving the camera
+  focusRequest?: FocusRequest | null; // Fly to and highlight a booth (e.g. a search result)
+  onBoothFocus?: (boothId: string | null) => void; // Called when Tab moves the keyboard focus between booths
+  showMeshDebug?: boolean; // Label booth meshes with their names and color the unmapped ones
+  cameraViewReaderRef?: React.MutableRefObject<(() => CameraPosition | null) | null>; // Set to a reader of the live camera view
+}
+
+interface SceneHandlers {
+  onHover: (clientX: number, clientY: number) => void;
+  onTap: (clientX: number, clientY: number, pointerType: string) => void;
+  onLongPress: (clientX: number, clientY: number, pointerType: string) => void;
+  onKeyDown: (e: KeyboardEvent) => void;
+  onKeyUp: (e: KeyboardEvent) => void;
+  onInteractionStart: () => void;
+  onCameraChange: () => void;
+  onCameraInteractionEnd: () => void;
+  reportCameraView: () => void;
+  startTour: () => void;
+  stopTour: () => void;
+  onTourStep: (step: TourStep) => void;
+  onTourArrive: (step: TourStep) => void;
+  onTourComplete: () => void;
+  initializeBooths: () => void;
+  onModelLevelChange: () => void;
+}
+
+export interface FocusRequest {
+  boothId: string;
+  requestId: number; // Changes for every request so the same booth can be focused again
 }
 
-const WebGLScene: React.FC<WebGLSceneProps> = ({ areaData, currentArea, showExhibitorDetails }) => {
+const WebGLScene: React.FC<WebGLSceneProps> = ({
+  areaData,
+  currentArea,
+  showExhibitorDetails,
+  showLogoDecals = false,
+  statusFilter = null,
+  statusChanges = [],
+  onMeshMappingComplete,
+  selectedBoothId = null,
+  cameraView = null,
+  onBoothSelect,
+  onCameraViewChange,
+  focusRequest = null,
+  onBoothFocus,
+  showMeshDebug = false,
+  cameraViewReaderRef
+}) => {
   const mountRef = useRef<HTMLDivElement>(null);
+  const [modelLoadState, setModelLoadState] = useState<ModelLoadState>({ status: 'loading', progress: null });
+  const [modelLoadAttempt, setModelLoadAttempt] = useState<number>(0); // Bumped by the retry button
+  const [tourState, setTourState] = useState<TourState>('stopped');
+  const [tourCaption, setTourCaption] = useState<string | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
-  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
-  // CSS3D renderer refs removed - using sprites in WebGL scene instead
-  const animationRef = useRef<number | null>(null);
+  const sceneManagerRef = useRef<SceneManager | null>(null); // Renderer, camera, controls and cached models, created once
+  const loadedAreaRef = useRef<string | null>(null); // Area whose model is currently shown
   const calloutsRef = useRef<THREE.Sprite[]>([]);
   const nameCalloutsRef = useRef<THREE.Sprite[]>([]); // For name callouts
+  const logoDecalsRef = useRef<THREE.Mesh[]>([]); // Logos lying on booth tops
+  const logoDecalGenerationRef = useRef<number>(0); // Bumped on clear so late logo loads are dropped
   const boothMeshMapRef = useRef<Map<THREE.Mesh, any>>(new Map()); // Map mesh to booth data
   const cameraRef = useRef<THREE.Camera | null>(null); // Reference to camera for billboard effect
   const controlsRef = useRef<OrbitControls | null>(null); // Reference to controls for camera positioning
-  const currentModelRef = useRef<string | null>(null); // Track currently loaded model to avoid unnecessary reloads
-  const lastInteractionTimeRef = useRef<number>(Date.now()); // Track last user interaction
-  const autoTourTimeoutRef = useRef<NodeJS.Timeout | null>(null); // Auto-tour timeout reference
-  const autoTourActiveRef = useRef<boolean>(false); // Track if auto-tour is active
-  const currentAutoTourIndexRef = useRef<number>(0); // Current hall index in auto-tour
-  const autoTourAnimationRef = useRef<number | null>(null); // Auto-tour animation frame reference
-  // const autoTourStartTimeRef = useRef<number>(0); // Auto-tour animation start time (currently unused)
+  const tourEngineRef = useRef<TourEngine | null>(null); // Attract-mode tour player
+  const tourIdleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null); // Starts the tour after inactivity
+  const tourSpotlightOffsetRef = useRef<number>(0); // Next available booth to spotlight, so every booth gets its turn
+  const tourSpotlightShownRef = useRef<boolean>(false); // A spotlight callout is open and closes with the next step
   const lastClickedBoothRef = useRef<any>(null); // Track the last clicked booth for toggle functionality
+  const hoveredRef = useRef<THREE.Mesh | null>(null); // Booth mesh with the hover glow
+  const handlersRef = useRef<SceneHandlers | null>(null); // Latest handlers, for listeners and timers that outlive a render
+  // Latest route props and callbacks, read from event handlers created by the main effect
+  const selectedBoothIdRef = useRef<string | null>(selectedBoothId);
+  const cameraViewRef = useRef<CameraPosition | null>(cameraView);
+  const reportedCameraViewRef = useRef<CameraPosition | null>(null); // Last view reported to the parent, so it isn't applied back
+  const cameraSettleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null); // Reports the view once damping has settled
+  const onBoothSelectRef = useRef(onBoothSelect);
+  const onCameraViewChangeRef = useRef(onCameraViewChange);
+  const onBoothFocusRef = useRef(onBoothFocus);
+  const keyboardBoothIdRef = useRef<string | null>(null); // Booth reached with Tab
+  const pendingFocusRef = useRef<FocusRequest | null>(null); // Focus request waiting for the booth meshes to be mapped
+  const statusFilterRef = useRef<StatusFilter | null>(statusFilter);
+  const areaDataRef = useRef<AreaData | null>(areaData); // Latest booth data, updated live without rebuilding the scene
+  const mappedBoothIdsRef = useRef<string>(''); // Booth IDs of the last mesh mapping, to detect added/removed booths
+  const meshMappingReportRef = useRef<MeshMappingReport | null>(null); // Result of the last mesh mapping
+  const meshDebugLabelsRef = useRef<THREE.Sprite[]>([]); // Mesh name labels of the debug view
+  // Changes from before the scene mounted are not replayed
+  const lastAnimatedChangeIdRef = useRef<number>(statusChanges.length > 0 ? statusChanges[statusChanges.length - 1].id : 0);
+  selectedBoothIdRef.current = selectedBoothId;
+  cameraViewRef.current = cameraView;
+  statusFilterRef.current = statusFilter;
+  areaDataRef.current = areaData;
+  onBoothSelectRef.current = onBoothSelect;
+  onCameraViewChangeRef.current = onCameraViewChange;
+  onBoothFocusRef.current = onBoothFocus;
+
+  // Create the renderer, camera, controls and lights once; area models are swapped in below
+  useEffect(() => {
+    const currentMount = mountRef.current;
+    if (!currentMount) return;
 
-  // Helper function to determine which model should be loaded
-  const getModelPath = (areaId: string): string => {
-    // Use process.env.PUBLIC_URL to handle both development and production paths
-    const basePath = process.env.PUBLIC_URL || '';
-
-    // Each hall loads its own individual model
-    switch (areaId) {
-      case 'Hall_B_2':
-        return `${basePath}/models/Hall_B_2.glb`;
-      case 'Hall_C':
-        return `${basePath}/models/Hall_C.glb`;
-      case 'Hall_E_3':
-        return `${basePath}/models/Hall_E_3.glb`;
-      case 'all_in_one':
-        return `${basePath}/models/all_in_one.glb`;
-      case 'MainExhibitionHall':
-        return `${basePath}/models/MainExhibitionHall.glb`;
-      default:
-        return `${basePath}/models/${areaId}.glb`;
-    }
-  };
+    console.log('🏗️ Creating persistent 3D scene');
+    const sceneManager = new SceneManager();
+    sceneManagerRef.current = sceneManager;
+    sceneRef.current = sceneManager.scene;
+    cameraRef.current = sceneManager.camera; // Store camera reference for billboard effect
+    controlsRef.current = sceneManager.controls;
+    sceneManager.onModelChange = () => handlersRef.current?.onModelLevelChange();
+    tourEngineRef.current = new TourEngine(sceneManager.camera, sceneManager.controls, {
+      onStep: step => handlersRef.current?.onTourStep(step),
+      onArrive: step => handlersRef.current?.onTourArrive(step),
+      onComplete: () => handlersRef.current?.onTourComplete(),
+      onStateChange: state => setTourState(state)
+    });
+    sceneManager.attach(currentMount);
 
+    // Listeners live as long as the scene, so they call the latest handlers
+    const { controls, renderer } = sceneManager;
+    const onInteractionStart = () => handlersRef.current?.onInteractionStart();
+    const onCameraChange = () => handlersRef.current?.onCameraChange();
+    const onCameraInteractionEnd = () => handlersRef.current?.onCameraInteractionEnd();
 
+    // Add interaction listeners to controls
+    controls.addEventListener('start', onInteractionStart); // When user starts interacting with controls
+    controls.addEventListener('change', onCameraChange); // When controls change (could be user or auto-tour)
+    controls.addEventListener('end', onCameraInteractionEnd); // When user stops interacting with controls
+    // Pointer events cover mouse, touch and pen; drags and pinches are left to the controls
+    const gestures = new PointerGestureTracker(renderer.domElement, {
+      onHover: (clientX, clientY) => handlersRef.current?.onHover(clientX, clientY),
+      onTap: (clientX, clientY, pointerType) => handlersRef.current?.onTap(clientX, clientY, pointerType),
+      onLongPress: (clientX, clientY, pointerType) => handlersRef.current?.onLongPress(clientX, clientY, pointerType)
+    });
+    const onKeyDown = (e: KeyboardEvent) => handlersRef.current?.onKeyDown(e);
+    const onKeyUp = (e: KeyboardEvent) => handlersRef.current?.onKeyUp(e);
+    renderer.domElement.setAttribute('role', 'application');
+    renderer.domElement.setAttribute('aria-label',
+      '3D floor plan. Tab and Shift+Tab move between booths, Enter opens details, Escape closes them; ' +
+      'arrow keys pan and Shift+arrow keys orbit.');
+    renderer.domElement.addEventListener('keydown', onKeyDown);
+    renderer.domElement.addEventListener('keyup', onKeyUp);
 
+    // Cleanup
+    return () => {
+      // Clean up the tour and a pending camera view report
+      stopTour();
+      clearCameraSettleTimer();
+
+      controls.removeEventListener('start', onInteractionStart);
+      controls.removeEventListener('change', onCameraChange);
+      controls.removeEventListener('end', onCameraInteractionEnd);
+      gestures.dispose();
+      renderer.domElement.removeEventListener('keydown', onKeyDown);
+      renderer.domElement.removeEventListener('keyup', onKeyUp);
+
+      sceneManager.dispose();
+      sceneManagerRef.current = null;
+      tourEngineRef.current = null;
+      sceneRef.current = null;
+      cameraRef.current = null;
+      controlsRef.current = null;
+      loadedAreaRef.current = null;
+      hoveredRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
+  // Tour API for kiosk screens, e.g. window.exhibitionTour.start() from the kiosk's launcher script
   useEffect(() => {
-    if (!areaData) return;
+    window.exhibitionTour = {
+      start: () => handlersRef.current?.startTour(),
+      stop: () => handlersRef.current?.stopTour(),
+      pause: () => tourEngineRef.current?.pause(),
+      resume: () => tourEngineRef.current?.resume(),
+      getState: () => tourEngineRef.current?.state ?? 'stopped'
+    };
+    return () => {
+      delete window.exhibitionTour;
+    };
+  }, []);
 
-    console.log(`🏗️ Main useEffect triggered - Area: ${areaData.areaId}`);
+  // Show the model of the current area; cached models are swapped in without reloading
+  useEffect(() => {
+    const sceneManager = sceneManagerRef.current;
+    if (!sceneManager) return;
 
-    const currentMount = mountRef.current;
-    if (!currentMount) return;
+    let cancelled = false;
+    let tourTimer: ReturnType<typeof setTimeout> | null = null;
 
-    const width = window.innerWidth;
-    const height = window.innerHeight;
+    stopTour();
+    clearCameraSettleTimer();
+    resetBoothMeshes();
+    tourSpotlightOffsetRef.current = 0;
+    loadedAreaRef.current = null;
+    keyboardBoothIdRef.current = null;
+    onBoothFocusRef.current?.(null);
 
-    lastInteractionTimeRef.current = Date.now();
+    // Load the appropriate model based on current area
+    const modelPath = getModelPath(currentArea);
 
-    // WebGL Scene setup
-    const scene = new THREE.Scene();
-    scene.background = new THREE.Color(0xffffff); // White background
-    sceneRef.current = scene;
+    // Cached models are swapped in right away, without the progress overlay
+    if (!sceneManager.hasModel(currentArea)) {
+      setModelLoadState({ status: 'loading', progress: null });
+    }
 
-    // CSS3D scene no longer needed - callouts now use sprites in WebGL scene
+    sceneManager.showModel(currentArea, modelPath, getModelScale(currentArea), {
+      fallbackUrl: getFallbackModelPath(currentArea),
+      lods: getModelLods(currentArea),
+      onProgress: progress => {
+        if (!cancelled) setModelLoadState({ status: 'loading', progress });
+      }
+    })
+      .then(root => {
+        if (cancelled) return;
+        loadedAreaRef.current = currentArea;
+        setModelLoadState({ status: 'ready', fallback: root.userData._fallback === true });
+
+        // Set starting camera position for this model, then map, color and label its booths
+        applyInitialCameraPosition();
+        handlersRef.current?.initializeBooths();
+
+        // Start the tour countdown after everything is initialized
+        tourTimer = setTimeout(() => handlersRef.current?.onCameraChange(), 500);
+      })
+      .catch((e: unknown) => {
+        if (cancelled) return;
+        const message = e instanceof Error ? e.message : String(e);
+        console.error(`❌ Failed to load model ${modelPath}:`, e);
+        setModelLoadState({ status: 'error', message });
+      });
 
-    // Camera setup - position to see the full 20x10m floor
-    const camera = new THREE.PerspectiveCamera(75, width / height, 0.1, 2000);
-    camera.position.set(0, 15, 8); // Higher up and angled down to see full floor
-    camera.lookAt(0, -1, 0); // Look at the floor
-    cameraRef.current = camera; // Store camera reference for billboard effect
+    return () => {
+      cancelled = true;
+      if (tourTimer) clearTimeout(tourTimer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentArea, modelLoadAttempt]);
 
-    // WebGL Renderer setup
-    const renderer = new THREE.WebGLRenderer({ antialias: true });
-    renderer.setSize(width, height);
-    renderer.shadowMap.enabled = true;
-    renderer.shadowMap.type = THREE.PCFSoftShadowMap;
-    rendererRef.current = renderer;
+  // Function to drop callouts, logos and mesh mappings, which belong to the previous model
+  const resetBoothMeshes = () => {
+    clearCallouts();
+    clearNameCallouts();
+    clearLogoDecals();
+    if (hoveredRef.current) {
+      MaterialManager.removeHoverEffect(hoveredRef.current);
+      hoveredRef.current = null;
+    }
+    if (sceneRef.current) {
+      CalloutManager.clearCallouts(sceneRef.current, meshDebugLabelsRef.current);
+    }
+    boothMeshMapRef.current.clear();
+    mappedBoothIdsRef.current = '';
+    meshMappingReportRef.current = null;
+  };
 
-    // CSS3D renderer no longer needed - callouts now use sprite system
+  // Function to move booth colors, labels and the open callout to another level of detail of the model
+  const handleModelLevelChange = () => {
+    if (loadedAreaRef.current !== currentArea || !areaDataRef.current) return;
 
-    if (currentMount) {
-      currentMount.appendChild(renderer.domElement);
+    const openBoothId = calloutsRef.current.length > 0 ? lastClickedBoothRef.current?.id : null;
+    resetBoothMeshes();
+    mapBoothMeshes();
+    applyBoothStatusColors();
+    applyStatusFilter();
+    if (showExhibitorDetails) {
+      createAllNameCallouts();
+    }
+    if (showLogoDecals) {
+      createAllLogoDecals();
     }
 
-    // Auto-tour hall sequence from CameraAnimator
-    const autoTourHalls = CameraAnimator.AUTO_TOUR_HALLS;
+    // Reopen the callout without moving the camera
+    const mesh = openBoothId ? MeshManager.findMeshForBooth(boothMeshMapRef.current, openBoothId) : null;
+    if (mesh) {
+      const booth = boothMeshMapRef.current.get(mesh);
+      showBoothInfoCallout(booth, mesh);
+      lastClickedBoothRef.current = booth;
+    }
+  };
 
-    // Function to focus camera on specific area using CameraAnimator (only for all_in_one auto-tour)
-    const focusCameraOnArea = (areaId: string, controls: OrbitControls, camera: THREE.Camera, isAutoTour: boolean = false) => {
-      const onAutoTourComplete = () => {
-        if (autoTourActiveRef.current) {
-          setTimeout(() => {
-            console.warn('Starting the tour in line 111');
-            startAutoTour();
-          }, 200); // Small delay before moving to next hall
-        }
-      };
+  // Function to map, color and label the booths once both the model and booth data are there
+  const initializeBooths = () => {
+    if (!areaDataRef.current) return; // Done by the booth data effect when the data arrives
 
-      CameraAnimator.focusCameraOnArea(areaId, controls, camera, isAutoTour, onAutoTourComplete, currentArea);
-    };
+    console.log(`🌍 Will show ${areaDataRef.current.booths.length} booths on this model`);
+    mapBoothMeshes();
+    applyBoothStatusColors();
+    applyStatusFilter();
+    // Open the callout of the booth selected in the URL, if any
+    syncSelectedBooth();
+    // Fly to a booth requested before the model was ready
+    applyPendingFocus();
+    // Create name callouts and logos after coloring (if enabled)
+    if (showExhibitorDetails) {
+      createAllNameCallouts();
+    }
+    if (showLogoDecals) {
+      createAllLogoDecals();
+    }
+  };
 
-    // Function to start auto-tour (only for all_in_one model)
-    const startAutoTour = () => {
-      if (!controlsRef.current || !cameraRef.current) return;
+  // Function to start the attract-mode tour of the current area
+  const startTour = () => {
+    const tourEngine = tourEngineRef.current;
+    const script = getTourScript(currentArea);
+    if (!tourEngine || !script || loadedAreaRef.current !== currentArea) return;
 
-      // Only allow auto-tour on all_in_one model
-      if (currentArea !== 'all_in_one') {
-        console.log(`🎬 Auto-tour only available on all_in_one model, current model: ${currentArea}`);
-        return;
-      }
+    clearTourIdleTimer();
+    CameraAnimator.cancelActiveAnimation();
+    tourEngine.start(addSpotlightSteps(script));
+  };
 
-      autoTourActiveRef.current = true;
-      const { hall: nextHall, nextIndex } = CameraAnimator.getNextAutoTourHall(currentAutoTourIndexRef.current);
+  // Function to visit the next available booths between the steps of a script that spotlights them
+  const addSpotlightSteps = (script: TourScript): TourScript => {
+    const sceneManager = sceneManagerRef.current;
+    if (!script.spotlightAvailable || !sceneManager) return script;
+
+    const spotlight = { ...DEFAULT_SPOTLIGHT, ...script.spotlightAvailable };
+    const meshes = MeshManager.sortMeshesSpatially(
+      Array.from(boothMeshMapRef.current.entries())
+        .filter(([mesh, booth]) => mesh.visible && CalloutManager.isAvailable(booth.status))
+        .map(([mesh]) => mesh)
+    );
+    if (meshes.length === 0) return script;
+
+    // Continue after the booths of the previous round
+    const count = Math.min(meshes.length, spotlight.boothsPerStop * script.steps.length);
+    const offset = tourSpotlightOffsetRef.current % meshes.length;
+    tourSpotlightOffsetRef.current = offset + count;
+
+    const spotlightSteps: TourStep[] = Array.from({ length: count }, (_, i) => {
+      const mesh = meshes[(offset + i) % meshes.length];
+      const booth = boothMeshMapRef.current.get(mesh)!;
+      const box = new THREE.Box3().setFromObject(mesh);
+      return {
+        camera: CameraAnimator.computeFramingPosition(sceneManager.camera, sceneManager.controls, box, { padding: 3 }),
+        flyDuration: spotlight.flyDuration,
+        dwell: spotlight.dwell,
+        caption: `Available: booth ${booth.standNumber || booth.id}`,
+        spotlightBooth: booth.id
+      };
+    });
 
-      console.log(`🎬 Auto-tour: Moving to ${nextHall} (${currentAutoTourIndexRef.current + 1}/${autoTourHalls.length})`);
+    console.log(`🔦 Spotlighting ${count} of ${meshes.length} available booths`);
+    // Played once; the next round picks up fresh statuses and the following booths
+    return { ...script, steps: interleaveSpotlights(script.steps, spotlightSteps, spotlight.boothsPerStop), loop: false };
+  };
 
-      focusCameraOnArea(nextHall, controlsRef.current, cameraRef.current, true);
+  // Function to stop the tour and its idle timer
+  const stopTour = () => {
+    clearTourIdleTimer();
+    tourEngineRef.current?.stop();
+  };
 
-      // Move to next hall (circular)
-      currentAutoTourIndexRef.current = nextIndex;
-    };
+  const clearTourIdleTimer = () => {
+    if (tourIdleTimerRef.current) {
+      clearTimeout(tourIdleTimerRef.current);
+      tourIdleTimerRef.current = null;
+    }
+  };
 
-    // Function to stop auto-tour
-    const stopAutoTour = () => {
-      if (autoTourActiveRef.current) {
-        console.log('✉️ Auto-tour stopped due to user interaction');
-        autoTourActiveRef.current = false;
-      }
-      
-      // Immediately stop any running auto-tour animations
-      CameraAnimator.stopAutoTourAnimations(controlsRef.current || undefined);
-      
-      if (autoTourTimeoutRef.current) {
-        clearTimeout(autoTourTimeoutRef.current);
-        autoTourTimeoutRef.current = null;
-      }
-      if (autoTourAnimationRef.current) {
-        cancelAnimationFrame(autoTourAnimationRef.current);
-        autoTourAnimationRef.current = null;
-      }
-    };
+  // Function to (re)start the countdown to the tour after an interaction
+  const scheduleTour = () => {
+    clearTourIdleTimer();
+    const idleTimeout = getTourIdleTimeout(currentArea);
+    if (idleTimeout <= 0 || !getTourScript(currentArea)) return;
 
-    // Function to handle genuine user interaction that should interrupt auto-tour
-    const handleGenuineUserInteraction = () => {
-      lastInteractionTimeRef.current = Date.now();
-      stopAutoTour();
+    tourIdleTimerRef.current = setTimeout(() => {
+      console.log(`💤 No interaction for ${Math.round(idleTimeout / 1000)} s, starting tour`);
+      handlersRef.current?.startTour();
+    }, idleTimeout);
+  };
 
-      // Clear existing timeout
-      if (autoTourTimeoutRef.current) {
-        clearTimeout(autoTourTimeoutRef.current);
-      }
+  // Function to show the caption and highlight the booths of a tour step
+  const handleTourStep = (step: TourStep) => {
+    setTourCaption(step.caption || null);
+    if (tourSpotlightShownRef.current) {
+      tourSpotlightShownRef.current = false;
+      clearCallouts();
+    }
+  };
 
-      // Only set auto-tour timeout for all_in_one model
-      if (currentArea === 'all_in_one') {
-        // Set new timeout for auto-tour
-        autoTourTimeoutRef.current = setTimeout(() => {
-          if (Date.now() - lastInteractionTimeRef.current >= 500) {
-            console.log('💤 User inactive for 4 minutes, starting auto-tour...');
-            console.warn('Starting the tour in line 178');
-            startAutoTour();
-          }
-        }, 240000);
-      }
-    };
-    
-    // Function to handle camera changes (could be from user or auto-tour)
-    const handleCameraChange = () => {
-      // Don't interrupt auto-tour if camera changes are from auto-tour animations
-      if (!autoTourActiveRef.current) {
-        // Only update interaction time and start auto-tour timer if not during auto-tour
-        lastInteractionTimeRef.current = Date.now();
-        
-        // Clear existing timeout
-        if (autoTourTimeoutRef.current) {
-          clearTimeout(autoTourTimeoutRef.current);
-        }
+  const handleTourArrive = (step: TourStep) => {
+    const spotlightMesh = step.spotlightBooth ? MeshManager.findMeshForBooth(boothMeshMapRef.current, step.spotlightBooth) : null;
+    const spotlightBooth = spotlightMesh ? boothMeshMapRef.current.get(spotlightMesh) : null;
+    if (spotlightMesh && spotlightBooth) {
+      showBoothInfoCallout(spotlightBooth, spotlightMesh);
+      MaterialManager.pulseHighlight(spotlightMesh, MaterialManager.getHoverGlowColor(spotlightBooth.status?.toLowerCase() || 'available'));
+      tourSpotlightShownRef.current = true;
+    }
 
-        // Only set auto-tour timeout for all_in_one model
-        if (currentArea === 'all_in_one') {
-          // Set new timeout for auto-tour
-          autoTourTimeoutRef.current = setTimeout(() => {
-            if (Date.now() - lastInteractionTimeRef.current >= 500) {
-              console.log('💤 User inactive for 500ms, starting auto-tour...');
-              console.warn('Starting the tour in line 203');
-              startAutoTour();
-            }
-          }, 240000);
-        }
+    (step.highlightBooths || []).forEach(boothId => {
+      const mesh = MeshManager.findMeshForBooth(boothMeshMapRef.current, boothId);
+      const booth = mesh ? boothMeshMapRef.current.get(mesh) : null;
+      if (mesh && booth) {
+        MaterialManager.pulseHighlight(mesh, MaterialManager.getHoverGlowColor(booth.status?.toLowerCase() || 'available'));
       }
-    };
-
-    const controls = new OrbitControls(camera, renderer.domElement);
-    controls.enableDamping = true;      // smoothness
-    controls.enableZoom = true;         // incl. zoom
-    controls.zoomSpeed = 1.0;           // zoom speed
-    controls.minDistance = 2;           // min. distance
-    controls.maxDistance = 50;          // max. distance
-    controls.enablePan = true;          // panoramic view, if necessary
-    controlsRef.current = controls;     // Store controls reference
-
-    // Add interaction listeners to controls
-    controls.addEventListener('start', handleGenuineUserInteraction); // When user starts interacting with controls
-    controls.addEventListener('change', handleCameraChange); // When controls change (could be user or auto-tour)
-
-    // Function to map booth meshes to their data (for click handling)
-    const mapBoothMeshes = () => {
-      if (!areaData || !scene) return;
-      MeshManager.mapBoothMeshes(scene, areaData.booths, boothMeshMapRef.current, areaData.areaName);
-    };
+    });
+  };
 
-    // Function to show info callout for a specific booth (on click)
-    const showBoothInfoCallout = (booth: any, mesh: THREE.Mesh) => {
-      console.log(`📝 showBoothInfoCallout called for booth:`, booth);
+  // Function to start the next round of a tour that spotlights booths (those rounds don't loop themselves)
+  const handleTourComplete = () => {
+    const script = getTourScript(currentArea);
+    if (script?.spotlightAvailable && script.loop !== false) {
+      startTour();
+    }
+  };
 
-      if (!scene) {
-        console.error('❌ scene not available');
-        return;
-      }
+  // Function to handle genuine user interaction that should interrupt the tour
+  const handleGenuineUserInteraction = () => {
+    if (tourEngineRef.current?.isActive) {
+      console.log('✋ Tour stopped by user interaction');
+    }
+    tourEngineRef.current?.stop();
+    tourSpotlightShownRef.current = false; // The visitor may keep reading the callout
+    scheduleTour();
+  };
 
-      // Clear only info callouts (keep name callouts visible)
-      clearCallouts();
+  // Function to handle camera changes (could be from the user or the tour)
+  const handleCameraChange = () => {
+    // Camera moves of a running or paused tour don't count as interaction
+    if (!tourEngineRef.current?.isActive) {
+      scheduleTour();
+    }
+    // Damping keeps the camera moving after the interaction ended
+    if (cameraSettleTimerRef.current) {
+      handleCameraInteractionEnd();
+    }
+  };
 
-      // Create callout position using CalloutManager
-      const infoCalloutPosition = CalloutManager.createCalloutPosition(mesh, currentArea, 'info');
+  // Report the camera view once the user stops moving the camera and it has settled (kept in the URL)
+  const handleCameraInteractionEnd = () => {
+    clearCameraSettleTimer();
+    cameraSettleTimerRef.current = setTimeout(() => {
+      cameraSettleTimerRef.current = null;
+      handlersRef.current?.reportCameraView();
+    }, CAMERA_SETTLE_DELAY);
+  };
 
-      console.log(`📏 Callout position:`, infoCalloutPosition);
-      console.log(`📏 Using height offset ${CalloutManager.getHeightOffset(currentArea, 'info')} for area ${currentArea}`);
+  const clearCameraSettleTimer = () => {
+    if (cameraSettleTimerRef.current) {
+      clearTimeout(cameraSettleTimerRef.current);
+      cameraSettleTimerRef.current = null;
+    }
+  };
 
-      const infoCallout = createBoothCallout(booth, infoCalloutPosition);
-      CalloutManager.addCalloutToScene(scene, infoCallout, calloutsRef.current);
+  // Function to report the current camera view to the parent
+  const reportCameraView = () => {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!camera || !controls) return;
 
-      console.log(`✅ Info callout sprite created and added for booth ${booth.id}`);
-    };
+    const view = CameraAnimator.getCurrentPosition(camera, controls);
+    reportedCameraViewRef.current = view;
+    onCameraViewChangeRef.current?.(view);
+  };
 
+  // Function to show info callout for a specific booth (on click)
+  const showBoothInfoCallout = (booth: any, mesh: THREE.Mesh) => {
+    console.log(`📝 showBoothInfoCallout called for booth:`, booth);
 
+    const scene = sceneRef.current;
+    if (!scene) {
+      console.error('❌ scene not available');
+      return;
+    }
 
-    // Lighting
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.25);
-    scene.add(ambientLight);
-
-    // Sky light (sky/ground) for more natural shadows and highlights
-    const hemiLight = new THREE.HemisphereLight(0xffffff, 0x222233, 0.65);
-    hemiLight.position.set(0, 1, 0);
-    scene.add(hemiLight);
-
-    const dirLight = new THREE.DirectionalLight(0xffffff, 1.2);
-    dirLight.position.set(12, 18, 10);
-    dirLight.target.position.set(0, 0, 0);
-    dirLight.castShadow = true;
-    dirLight.shadow.mapSize.width = 2048;
-    dirLight.shadow.mapSize.height = 2048;
-    dirLight.shadow.camera.near = 0.5;
-    dirLight.shadow.camera.far = 200;
-    dirLight.shadow.bias = -0.0005;
-    dirLight.shadow.normalBias = 0.02;
-    scene.add(dirLight);
-    scene.add(dirLight.target);
-
-    // Loading the model (TypeScript-friendly)
-    const loader = new GLTFLoader();
-
-    // Group/scene GLTF 
-    let rootModel: THREE.Group | null = null;
-
-    //  type guard
-    const isMesh = (o: THREE.Object3D): o is THREE.Mesh =>
-      (o as THREE.Mesh).isMesh === true;
-
-    // Get all meshes (parts of the model)
-    const collectMeshes = (root: THREE.Object3D): THREE.Mesh[] => {
-      const list: THREE.Mesh[] = [];
-      root.traverse((o: THREE.Object3D) => {
-        if (isMesh(o)) list.push(o);
-      });
-      return list;
-    };
+    // Clear only info callouts (keep name callouts visible)
+    clearCallouts();
 
+    // Create callout position using CalloutManager
+    const infoCalloutPosition = CalloutManager.createCalloutPosition(mesh, currentArea, 'info');
 
-    function loadModel(url: string): Promise<THREE.Group> {
-      return new Promise((resolve, reject) => {
-        loader.load(
-          url,
-          (gltf: GLTF) => {
-            // gltf.scene — THREE.Group
-            resolve(gltf.scene);
-          },
-          undefined,
-          reject
-        );
-      });
-    }
+    console.log(`📏 Callout position:`, infoCalloutPosition);
+    console.log(`📏 Using height offset ${CalloutManager.getHeightOffset(currentArea, 'info')} for area ${currentArea}`);
 
-    async function initModel(url: string): Promise<void> {
-      try {
-        const sceneRoot: THREE.Group = await loadModel(url);
-
-        if (rootModel) scene.remove(rootModel);
-        rootModel = sceneRoot;
-
-        const meshes = collectMeshes(rootModel);
-        console.log("Знайдено мешів:", meshes.map(m => m.name || m.uuid));
-        const allowedNames = ["BOOTHLAYER_curve_*"];
-
-        const markInteractives = (root: THREE.Object3D) => {
-          let interactiveCount = 0;
-          root.traverse((o) => {
-            if (isMesh(o)) {
-              const isInteractive = MeshManager.isInteractiveMesh(o, allowedNames);
-              o.userData._interactive = isInteractive;
-              if (isInteractive) {
-                interactiveCount++;
-              }
-              // preserve the original color
-              MaterialManager.storeOriginalColor(o);
-            }
-          });
-          console.log(`🎯 Total interactive meshes marked: ${interactiveCount}`);
-        };
-        markInteractives(rootModel);
-
-        // Let's type the traverse parameter (Object3D)
-        rootModel.traverse((o: THREE.Object3D) => {
-          // since the required fields are Mesh — we create a type guard
-          if ((o as THREE.Mesh).isMesh) {
-            const mesh = o as THREE.Mesh;
-
-            mesh.castShadow = true;
-            mesh.receiveShadow = true;
-
-            // protection against color loss + preservation of original color
-            MaterialManager.storeOriginalColor(mesh);
-          }
-        });
+    const infoCallout = createBoothCallout(booth, infoCalloutPosition);
+    CalloutManager.addCalloutToScene(scene, infoCallout, calloutsRef.current);
 
-        // Centering/scale
-        const box = new THREE.Box3().setFromObject(rootModel);
-        const size = box.getSize(new THREE.Vector3());
+    console.log(`✅ Info callout sprite created and added for booth ${booth.id}`);
+  };
 
-        box.getCenter(new THREE.Vector3());
-        const maxDim = Math.max(size.x, size.y, size.z);
-        let scale = (10 / (maxDim || 1)) * 2;
+  // Function to move the hover glow to a booth mesh (or remove it)
+  const setHoveredMesh = (m: THREE.Mesh | null) => {
+    const hovered = hoveredRef.current;
 
-        // Make MainExhibitionHall model 1.5x larger
-        if (currentArea === 'MainExhibitionHall') {
-          scale = scale * 1.5;
-          console.log(`🏗️ Applying 1.5x scale to MainExhibitionHall model (final scale: ${scale.toFixed(3)})`);
+    if (m) {
+      if (hovered !== m && !m.userData._pulsing) {
+        // restore the previous color
+        if (hovered) {
+          MaterialManager.removeHoverEffect(hovered);
         }
 
-        rootModel.scale.setScalar(scale);
-        rootModel.position.y = 0.01;
-        scene.add(rootModel);
-
-        // Update all matrix transforms after scaling and positioning
-        rootModel.updateMatrixWorld(true);
+        // Get the booth's status to determine glow color
+        const boothData = boothMeshMapRef.current.get(m);
+        const status = boothData?.status?.toLowerCase() || 'available';
+        const glowColor = MaterialManager.getHoverGlowColor(status);
 
-        // Map booth meshes after model is loaded, scaled, and positioned
-        // Wait a bit for the scene to fully render before mapping meshes
-        if (cameraRef.current && controlsRef.current) {
-          CameraAnimator.setStartingCameraPosition(cameraRef.current, controlsRef.current, currentArea);
-        }
-        setTimeout(() => {
-          mapBoothMeshes();
-          // Apply booth status colors after mapping is complete
-          setTimeout(() => {
-            applyBoothStatusColors();
-            // Create name callouts after coloring (if enabled)
-            if (showExhibitorDetails) {
-              setTimeout(() => {
-                createAllNameCallouts();
-              }, 100);
-            }
-            // Set starting camera position for this model
-
-
-            // Start auto-tour timer after everything is initialized (only for all_in_one)
-            setTimeout(() => {
-              handleCameraChange();
-            }, 500);
-          }, 100);
-        }, 200); // Increased timeout to ensure transforms are applied
-      } catch (e: unknown) {
-        const msg = e instanceof Error ? e.message : String(e);
-        alert('Failed to load model: ' + msg);
+        // Apply hover effect using MaterialManager
+        MaterialManager.applyHoverEffect(m, glowColor, 0.3);
+        hoveredRef.current = m;
+      }
+    } else {
+      // Turn off the glow effect
+      if (hovered) {
+        MaterialManager.removeHoverEffect(hovered);
       }
+      hoveredRef.current = null;
     }
+  };
 
+  const handleHover = (clientX: number, clientY: number) => {
+    handleGenuineUserInteraction(); // Reset idle timer on mouse movement
+    const hits = sceneManagerRef.current?.pickInteractive(clientX, clientY) || [];
+    setHoveredMesh(hits.length ? hits[0].object as THREE.Mesh : null);
+  };
 
-    const raycaster = new THREE.Raycaster();
-    const mouse = new THREE.Vector2();
+  // Function to pick the booth mesh under a tap, or the nearest one within the pointer's tolerance
+  const pickBoothMesh = (clientX: number, clientY: number, pointerType: string): THREE.Mesh | null =>
+    sceneManagerRef.current?.pickNearestInteractive(clientX, clientY, getTapPickTolerance(pointerType)) || null;
 
-    const getIntersectors = (): THREE.Object3D[] => {
-      const list: THREE.Object3D[] = [];
-      rootModel?.traverse(o => {
-        if (isMesh(o) && o.userData._interactive) {
-          // All interactive booth meshes are now clickable (including sold/reserved)
-          list.push(o);
-        }
-      });
-      return list;
-    };
-
-    // In events:
-    function setMouseFromEvent(e: MouseEvent, renderer: THREE.WebGLRenderer) {
-      const rect = renderer.domElement.getBoundingClientRect();
-      mouse.x = ((e.clientX - rect.left) / rect.width) * 2 - 1;
-      mouse.y = -((e.clientY - rect.top) / rect.height) * 2 + 1;
+  const handleTap = (clientX: number, clientY: number, pointerType: string) => {
+    handleGenuineUserInteraction(); // Reset idle timer on tap
+    const clickedMesh = pickBoothMesh(clientX, clientY, pointerType);
+    // Touch has no hover, so the glow follows the tapped booth
+    if (pointerType === 'touch') {
+      setHoveredMesh(clickedMesh);
     }
 
-    function pickInteractive(camera: THREE.Camera): THREE.Intersection[] {
-      raycaster.setFromCamera(mouse, camera);
-      return raycaster.intersectObjects(getIntersectors(), true);
+    if (!clickedMesh) {
+      // Clicked on empty space - hide only info callouts (keep name callouts)
+      const hadSelection = lastClickedBoothRef.current !== null;
+      clearCallouts();
+      lastClickedBoothRef.current = null; // Reset last clicked booth
+      if (hadSelection) {
+        onBoothSelectRef.current?.(null, false);
+      }
+      return;
     }
 
-    let hovered: THREE.Mesh | null = null;
+    // Check if this mesh has booth data
+    const boothData = boothMeshMapRef.current.get(clickedMesh);
 
-    const onPointerMove = (e: MouseEvent, renderer: THREE.WebGLRenderer, camera: THREE.Camera) => {
-      console.log("On pointer move");
-      handleGenuineUserInteraction(); // Reset idle timer on mouse movement
-      setMouseFromEvent(e, renderer);
-      const hits = pickInteractive(camera);
+    if (boothData) {
+      // Check if this is the same booth that was clicked before
+      const isSameBooth = lastClickedBoothRef.current &&
+        lastClickedBoothRef.current.id === boothData.id;
 
-      if (hits.length) {
-        const m = hits[0].object as THREE.Mesh;
-        if (hovered !== m) {
-          // restore the previous color
-          if (hovered) {
-            MaterialManager.removeHoverEffect(hovered);
-          }
-
-          // Get the booth's status to determine glow color
-          const boothData = boothMeshMapRef.current.get(m);
-          const status = boothData?.status?.toLowerCase() || 'available';
-          const glowColor = MaterialManager.getHoverGlowColor(status);
-
-          // Apply hover effect using MaterialManager
-          MaterialManager.applyHoverEffect(m, glowColor, 0.3);
-          hovered = m;
-        }
+      if (isSameBooth && calloutsRef.current.length > 0) {
+        // Second click on same booth - hide callout (toggle off)
+        console.log(`🔄 Toggling OFF callout for booth ${boothData.id}`);
+        clearCallouts();
+        lastClickedBoothRef.current = null;
+        onBoothSelectRef.current?.(null, false);
       } else {
-        // Turn off the glow effect
-        if (hovered) {
-          MaterialManager.removeHoverEffect(hovered);
-        }
-        hovered = null;
+        // First click on this booth or different booth - show callout (toggle on)
+        console.log(`🔄 Toggling ON callout for booth ${boothData.id}`);
+        showBoothInfoCallout(boothData, clickedMesh);
+        lastClickedBoothRef.current = boothData;
+        // On phones the exhibitor panel would cover the model, so it waits for a long press
+        onBoothSelectRef.current?.(boothData.id, pointerType !== 'touch');
+        frameBoothMesh(clickedMesh);
       }
-    };
+    }
+  };
 
-    const onClick = (e: MouseEvent, renderer: THREE.WebGLRenderer, camera: THREE.Camera) => {
-      handleGenuineUserInteraction(); // Reset idle timer on click
-      setMouseFromEvent(e, renderer);
-      const hits = pickInteractive(camera);
+  // Long press opens the booth's callout and exhibitor details without toggling or moving the camera
+  const handleLongPress = (clientX: number, clientY: number, pointerType: string) => {
+    handleGenuineUserInteraction();
+    const mesh = pickBoothMesh(clientX, clientY, pointerType);
+    const boothData = mesh ? boothMeshMapRef.current.get(mesh) : null;
+    if (!mesh || !boothData) return;
+
+    console.log(`👆 Long press on booth ${boothData.id}`);
+    setHoveredMesh(mesh);
+    if (lastClickedBoothRef.current?.id !== boothData.id || calloutsRef.current.length === 0) {
+      showBoothInfoCallout(boothData, mesh);
+      lastClickedBoothRef.current = boothData;
+    }
+    onBoothSelectRef.current?.(boothData.id, true);
+  };
 
-      if (!hits.length) {
-        // Clicked on empty space - hide only info callouts (keep name callouts)
-        clearCallouts();
-        lastClickedBoothRef.current = null; // Reset last clicked booth
-        return;
-      }
+  // Function to move the keyboard focus to a booth: glow, callout and camera follow it
+  const focusBoothMesh = (mesh: THREE.Mesh | null) => {
+    const booth = mesh ? boothMeshMapRef.current.get(mesh) : null;
+    keyboardBoothIdRef.current = booth ? booth.id : null;
+    onBoothFocusRef.current?.(keyboardBoothIdRef.current);
+    setHoveredMesh(mesh);
+    if (!mesh || !booth) return;
+
+    showBoothInfoCallout(booth, mesh);
+    lastClickedBoothRef.current = booth;
+    frameBoothMesh(mesh);
+  };
 
-      const clickedMesh = hits[0].object as THREE.Mesh;
-
-      // Check if this mesh has booth data
-      const boothData = boothMeshMapRef.current.get(clickedMesh);
-
-      if (boothData) {
-        // Check if this is the same booth that was clicked before
-        const isSameBooth = lastClickedBoothRef.current &&
-          lastClickedBoothRef.current.id === boothData.id;
-
-        if (isSameBooth && calloutsRef.current.length > 0) {
-          // Second click on same booth - hide callout (toggle off)
-          console.log(`🔄 Toggling OFF callout for booth ${boothData.id}`);
-          clearCallouts();
-          lastClickedBoothRef.current = null;
-        } else {
-          // First click on this booth or different booth - show callout (toggle on)
-          console.log(`🔄 Toggling ON callout for booth ${boothData.id}`);
-          showBoothInfoCallout(boothData, clickedMesh);
-          lastClickedBoothRef.current = boothData;
-        }
-      }
-    };
+  // Function to move the keyboard focus to the next or previous booth in floor-plan order.
+  // Returns false past either end, so Tab can leave the scene instead of trapping focus.
+  const focusAdjacentBooth = (direction: 1 | -1): boolean => {
+    const meshes = MeshManager.sortMeshesSpatially(
+      Array.from(boothMeshMapRef.current.keys()).filter(mesh => mesh.visible)
+    );
+    const startId = keyboardBoothIdRef.current;
+    const currentIndex = startId ? meshes.findIndex(mesh => boothMeshMapRef.current.get(mesh)?.id === startId) : -1;
+    const nextIndex = currentIndex === -1 ? (direction > 0 ? 0 : meshes.length - 1) : currentIndex + direction;
+
+    if (nextIndex < 0 || nextIndex >= meshes.length) {
+      focusBoothMesh(null);
+      return false;
+    }
+    focusBoothMesh(meshes[nextIndex]);
+    return true;
+  };
 
-    renderer.domElement.addEventListener("mousemove", e => onPointerMove(e, renderer, camera));
-    renderer.domElement.addEventListener("click", e => onClick(e, renderer, camera));
+  const handleKeyDown = (e: KeyboardEvent) => {
+    handleGenuineUserInteraction(); // Reset idle timer on key presses
+    if (e.altKey || e.ctrlKey || e.metaKey) return;
 
-    // Load the appropriate model based on current area
-    const modelPath = getModelPath(currentArea);
+    if (e.key === 'Tab') {
+      if (focusAdjacentBooth(e.shiftKey ? -1 : 1)) {
+        e.preventDefault();
+      }
+    } else if (e.key === 'Enter') {
+      const boothId = keyboardBoothIdRef.current || lastClickedBoothRef.current?.id;
+      const mesh = boothId ? MeshManager.findMeshForBooth(boothMeshMapRef.current, boothId) : null;
+      if (!mesh) return;
+
+      e.preventDefault();
+      const booth = boothMeshMapRef.current.get(mesh);
+      console.log(`⌨️ Opening details of booth ${booth.id}`);
+      showBoothInfoCallout(booth, mesh);
+      lastClickedBoothRef.current = booth;
+      onBoothSelectRef.current?.(booth.id, true);
+    } else if (e.key === 'Escape') {
+      const hadSelection = selectedBoothIdRef.current !== null;
+      clearCallouts();
+      focusBoothMesh(null);
+      if (hadSelection) {
+        onBoothSelectRef.current?.(null, false);
+      }
+    }
+  };
 
-    // Debug model loading
-    console.log(`🏗️ Loading model: ${modelPath} for area: ${currentArea}`);
-    console.log(`📁 PUBLIC_URL: ${process.env.PUBLIC_URL || 'undefined'}`);
-    console.log(`🌐 Full model URL will be: ${window.location.origin}${modelPath}`);
-
-    // Check if file exists by making a HEAD request
-    fetch(modelPath, { method: 'HEAD' })
-      .then(response => {
-        console.log(`📦 Model file status: ${response.status} - ${response.ok ? 'OK' : 'NOT FOUND'}`);
-        if (!response.ok) {
-          console.error(`❌ Model file not found at: ${modelPath}`);
-        }
-      })
-      .catch(error => {
-        console.error(`❌ Error checking model file: ${error.message}`);
-      });
-    console.log(`🌍 Will show ${areaData.booths.length} booths on this model`);
-    currentModelRef.current = modelPath;
-    initModel(modelPath);
+  // Arrow keys move the camera through the controls, which don't report an end of interaction for keys
+  const handleKeyUp = (e: KeyboardEvent) => {
+    if (e.key.startsWith('Arrow')) {
+      handleCameraInteractionEnd();
+    }
+  };
 
-    // Initial camera positioning will be handled by the separate useEffect
+  // Effect to open/close the booth callout when the selected booth changes (URL, back/forward)
+  useEffect(() => {
+    if (!areaData || boothMeshMapRef.current.size === 0) return;
+    syncSelectedBooth();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedBoothId]);
 
+  // Effect to move the camera when the camera view changes from outside (URL, back/forward, viewpoint preview)
+  useEffect(() => {
+    if (!cameraView || !cameraRef.current || !controlsRef.current) return;
+    // Views this scene reported come back through the route; the camera may have moved on since
+    if (reportedCameraViewRef.current && CameraAnimator.isSamePosition(cameraView, reportedCameraViewRef.current)) return;
+    if (CameraAnimator.isAtPosition(cameraRef.current, controlsRef.current, cameraView)) return;
 
-    // Sprite callouts automatically face camera - no manual orientation needed
-    const updateCalloutOrientations = () => {
-      // Sprites automatically face camera - this function is now simplified
-      // Keep it for potential future billboard adjustments if needed
-    };
+    CameraAnimator.setCameraPosition(cameraRef.current, controlsRef.current, cameraView);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cameraView]);
 
-    // Animation loop
-    let lastLogTime = 0;
-    const animate = () => {
-      animationRef.current = requestAnimationFrame(animate);
-
-      controls.update();
-
-      // Log camera position and target every 1 second
-      const now = Date.now();
-      if (now - lastLogTime > 1000) {
-        const pos = camera.position;
-        const target = controls.target;
-        console.log(`📹 Camera Position: (${pos.x.toFixed(2)}, ${pos.y.toFixed(2)}, ${pos.z.toFixed(2)})`);
-        console.log(`🎯 Camera Look-At: (${target.x.toFixed(2)}, ${target.y.toFixed(2)}, ${target.z.toFixed(2)})`);
-        lastLogTime = now;
-      }
+  // Effect to fly to and highlight a requested booth
+  useEffect(() => {
+    if (!focusRequest) return;
+    pendingFocusRef.current = focusRequest;
+    applyPendingFocus();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focusRequest?.requestId]);
 
-      // Update callout orientations (sprites auto-face camera)
-      updateCalloutOrientations();
+  // Function to fly to the pending focus booth once its mesh is mapped
+  const applyPendingFocus = () => {
+    const request = pendingFocusRef.current;
+    if (!request || !cameraRef.current || !controlsRef.current) return;
 
-      // Render WebGL scene with sprites
-      renderer.render(scene, camera);
-    };
+    const mesh = MeshManager.findMeshForBooth(boothMeshMapRef.current, request.boothId);
+    if (!mesh) {
+      // Not mapped yet (model still loading) - retried after mapping
+      console.log(`⏳ Waiting for mesh of booth ${request.boothId} before focusing`);
+      return;
+    }
 
-    animate();
+    pendingFocusRef.current = null;
+    const booth = boothMeshMapRef.current.get(mesh);
+    const glowColor = MaterialManager.getHoverGlowColor(booth?.status?.toLowerCase() || 'available');
 
-    // Handle window resize
-    const handleResize = (): void => {
-      const newWidth = window.innerWidth;
-      const newHeight = window.innerHeight;
+    frameBoothMesh(mesh, () => {
+      MaterialManager.pulseHighlight(mesh, glowColor);
+    });
+  };
 
-      camera.aspect = newWidth / newHeight;
-      camera.updateProjectionMatrix();
-      renderer.setSize(newWidth, newHeight);
-    };
+  // Function to zoom the camera to a booth mesh and report the resulting view
+  const frameBoothMesh = (mesh: THREE.Mesh, onComplete?: () => void) => {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!camera || !controls) return;
 
-    window.addEventListener('resize', handleResize);
+    CameraAnimator.frameObject(camera, controls, mesh, {
+      onComplete: () => {
+        reportCameraView();
+        onComplete?.();
+      }
+    });
+  };
 
-    // Cleanup
-    return () => {
-      // Clean up auto-tour
-      stopAutoTour();
+  // Function to set the camera from the URL, or the area's starting position
+  const applyInitialCameraPosition = () => {
+    if (!cameraRef.current || !controlsRef.current) return;
 
-      window.removeEventListener('resize', handleResize);
-      renderer.domElement.removeEventListener("mousemove", e => onPointerMove(e, renderer, camera));
-      renderer.domElement.removeEventListener("click", e => onClick(e, renderer, camera));
+    if (cameraViewRef.current) {
+      console.log(`📹 Setting camera position from URL for ${currentArea}:`, cameraViewRef.current);
+      CameraAnimator.setCameraPosition(cameraRef.current, controlsRef.current, cameraViewRef.current);
+    } else {
+      CameraAnimator.setStartingCameraPosition(cameraRef.current, controlsRef.current, currentArea);
+    }
+  };
 
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-      }
+  // Function to open the info callout of the selected booth, or close it when nothing is selected
+  const syncSelectedBooth = () => {
+    const boothId = selectedBoothIdRef.current;
 
-      if (currentMount && renderer.domElement) {
-        currentMount.removeChild(renderer.domElement);
+    if (!boothId) {
+      if (lastClickedBoothRef.current) {
+        clearCallouts();
       }
-
-      renderer.dispose();
-      controls.dispose();
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [areaData, currentArea]); // React to areaData and currentArea changes
-
-  // Effect to handle area-specific updates without reloading the model
-  useEffect(() => {
-    if (!areaData || !sceneRef.current || currentModelRef.current !== getModelPath(areaData.areaId)) {
-      // Skip if no area data, no scene, or if model needs to be reloaded (handled by main effect)
       return;
     }
 
-    // Model is already loaded, just update booth mappings and colors
-    console.log(`🔄 Area changed to ${areaData.areaId}, updating booth data without reloading model`);
-
-    const mapBoothMeshes = () => {
-      if (!areaData || !sceneRef.current) return;
-      MeshManager.mapBoothMeshes(sceneRef.current, areaData.booths, boothMeshMapRef.current, areaData.areaName);
-    };
-
-    // Apply booth status colors
-    const applyBoothStatusColors = () => {
-      if (!areaData) return;
-      MaterialManager.applyBoothStatusColors(boothMeshMapRef.current, areaData.booths, areaData.areaName);
-    };
-
-    // Execute the updates with proper timing
-    setTimeout(() => {
-      mapBoothMeshes();
-      setTimeout(() => {
-        applyBoothStatusColors();
-      }, 50);
-    }, 50);
+    // Already showing this booth
+    if (lastClickedBoothRef.current?.id === boothId && calloutsRef.current.length > 0) return;
 
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [areaData?.areaId, areaData?.booths]); // React to area ID and booth changes
-
-  // Effect to handle initial camera positioning when area changes
-  useEffect(() => {
-    if (!areaData || !cameraRef.current || !controlsRef.current) return;
+    const mesh = MeshManager.findMeshForBooth(boothMeshMapRef.current, boothId);
+    if (!mesh) {
+      console.warn(`⚠️ Selected booth ${boothId} has no mesh in ${currentArea}`);
+      return;
+    }
 
-    // Set starting camera position for the current area (no animation)
-    const timer = setTimeout(() => {
-      CameraAnimator.setStartingCameraPosition(cameraRef.current!, controlsRef.current!, currentArea);
-    }, 300);
+    const booth = boothMeshMapRef.current.get(mesh);
+    showBoothInfoCallout(booth, mesh);
+    lastClickedBoothRef.current = booth;
 
-    return () => clearTimeout(timer);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentArea, areaData]); // React to current area changes
+    // Without a camera in the URL, zoom to the booth
+    if (!cameraViewRef.current) {
+      frameBoothMesh(mesh);
+    }
+  };
 
   // Effect to handle exhibitor details toggle
   useEffect(() => {
@@ -657,15 +813,121 @@ const WebGLScene: React.FC<WebGLSceneProps> = ({ areaData, currentArea, showExhi
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [showExhibitorDetails, areaData?.areaId]); // React to toggle changes and area changes
 
-  // Effect to update booth colors when booth data changes
+  // Effect to handle the booth logo toggle
   useEffect(() => {
     if (!areaData || boothMeshMapRef.current.size === 0) return;
 
-    // Apply status colors whenever booth data changes
-    applyBoothStatusColors();
+    if (showLogoDecals) {
+      createAllLogoDecals();
+    } else {
+      clearLogoDecals();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showLogoDecals, areaData?.areaId]);
+
+  // Effect to dim or hide booths when the status filter changes
+  useEffect(() => {
+    if (boothMeshMapRef.current.size === 0) return;
+    applyStatusFilter();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter]);
+
+  // Effect to apply booth data updates (e.g. live updates) to the loaded model without rebuilding the scene
+  useEffect(() => {
+    if (!areaData || !sceneRef.current || loadedAreaRef.current !== currentArea) return;
+
+    // First booth data for the shown model
+    if (boothMeshMapRef.current.size === 0) {
+      initializeBooths();
+      return;
+    }
+
+    const boothIdsKey = areaData.booths.map(booth => booth.id).join(',');
+    if (boothIdsKey !== mappedBoothIdsRef.current) {
+      // Booths were added or removed - map and color all meshes again
+      console.log(`🔄 Booth list changed for ${areaData.areaId}, remapping meshes`);
+      mapBoothMeshes();
+      applyBoothStatusColors();
+    } else {
+      const changedMeshes = MeshManager.updateMappedBooths(boothMeshMapRef.current, areaData.booths);
+      if (changedMeshes.length === 0) return;
+
+      console.log(`🔄 Applying updates to ${changedMeshes.length} booths in ${areaData.areaId}`);
+      const changedMeshMap = new Map(changedMeshes.map(mesh => [mesh, boothMeshMapRef.current.get(mesh)]));
+      MaterialManager.applyBoothStatusColors(changedMeshMap, areaData.booths, areaData.areaName);
+    }
+
+    applyStatusFilter();
+    refreshBoothLabels();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [areaData?.booths]); // React to booth data changes
 
+  // Effect to animate booths whose status changed (runs after the new colors were applied above)
+  useEffect(() => {
+    const newChanges = statusChanges.filter(change => change.id > lastAnimatedChangeIdRef.current);
+    if (newChanges.length === 0) return;
+
+    lastAnimatedChangeIdRef.current = newChanges[newChanges.length - 1].id;
+    newChanges.forEach(animateStatusChange);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusChanges]);
+
+  // Function to fade a booth to its new status color, pulse it and celebrate sales with confetti
+  const animateStatusChange = (change: BoothStatusChange) => {
+    const scene = sceneRef.current;
+    const mesh = MeshManager.findMeshForBooth(boothMeshMapRef.current, change.boothId);
+    if (!scene || !mesh) return;
+
+    const style = getStatusStyle(change.status);
+    MaterialManager.animateColorTransition(mesh, getStatusStyle(change.previousStatus).color, style.color, 1000, () => {
+      MaterialManager.pulseHighlight(mesh, style.glowColor);
+    });
+
+    // Only sales are celebrated, not e.g. a sold booth being blocked
+    if (style.celebrate && getStatusStyle(change.previousStatus).forSale && mesh.visible) {
+      SceneEffects.playConfetti(scene, mesh, [style.color, style.glowColor, 0xffffff, 0xffd700]);
+    }
+  };
+
+  // Function to show changed booth names, logos and the open callout after a data update
+  const refreshBoothLabels = () => {
+    if (showExhibitorDetails) {
+      createAllNameCallouts();
+    }
+    if (showLogoDecals) {
+      createAllLogoDecals();
+    }
+
+    const openBooth = lastClickedBoothRef.current;
+    if (openBooth && calloutsRef.current.length > 0) {
+      const mesh = MeshManager.findMeshForBooth(boothMeshMapRef.current, openBooth.id);
+      if (mesh) {
+        const booth = boothMeshMapRef.current.get(mesh);
+        showBoothInfoCallout(booth, mesh);
+        lastClickedBoothRef.current = booth;
+      }
+    }
+  };
+
+  // Function to map booth meshes to their data (for click handling)
+  const mapBoothMeshes = () => {
+    const currentData = areaDataRef.current;
+    if (!currentData || !sceneRef.current) return;
+
+    const areaId = loadedAreaRef.current || currentArea;
+    const report = MeshManager.mapBoothMeshes(
+      sceneRef.current, currentData.booths, boothMeshMapRef.current, currentData.areaName, getMeshMapping(areaId)
+    );
+    mappedBoothIdsRef.current = currentData.booths.map(booth => booth.id).join(',');
+    // Booths of other areas in the event aren't expected in this model
+    const boothIdPrefixes = getAreaConfig(areaId)?.boothIdPrefixes;
+    meshMappingReportRef.current = {
+      ...report,
+      unmappedBoothIds: report.unmappedBoothIds.filter(boothId => matchesBoothPrefixes(boothId, boothIdPrefixes))
+    };
+    onMeshMappingComplete?.(meshMappingReportRef.current);
+  };
+
   // Function to create a booth callout sprite with canvas texture
   const createBoothCallout = (booth: any, position: THREE.Vector3): THREE.Sprite => {
     // Determine content based on booth status
@@ -673,17 +935,13 @@ const WebGLScene: React.FC<WebGLSceneProps> = ({ areaData, currentArea, showExhi
     const isAvailable = CalloutManager.isAvailable(booth.status);
 
     // Get size multiplier using CalloutManager
-    const sizeMultiplier = CalloutManager.getSizeMultiplier(currentArea, {
-      isTechDays2026: currentArea === 'MainExhibitionHall',
-      isIndividualHall: ['Hall_B_2', 'Hall_C', 'Hall_E_3'].includes(currentArea),
-      isAllInOneOverview: currentArea === 'all_in_one',
-      isAvailable: isAvailable
-    });
+    const sizeMultiplier = CalloutManager.getSizeMultiplier(currentArea, isAvailable);
+    const calloutStyle = getStatusStyle(booth.status).callout;
 
     let canvas: HTMLCanvasElement;
 
     if (isSoldOrReserved) {
-      // Show status (Sold/Reserved) and company name for sold or reserved booths using original format
+      // Show status (Sold, Reserved, On hold, ...) and company name for taken booths using original format
       const statusText = CalloutManager.getFormattedStatusText(booth.status);
       let formattedText = booth.id; // First line: booth ID (bold)
       if (booth.name && booth.name.trim() !== '') {
@@ -706,22 +964,23 @@ const WebGLScene: React.FC<WebGLSceneProps> = ({ areaData, currentArea, showExhi
         borderWidth: 1 * sizeMultiplier,
         maxWidth: 200 * sizeMultiplier,
         gradient: {
-          colors: ['rgba(43, 179, 43, 0.95)', 'rgba(34, 139, 34, 0.95)'],
+          colors: calloutStyle.gradient,
           direction: 'vertical'
         },
         shadow: {
-          color: 'rgba(43, 179, 43, 0.4)',
+          color: calloutStyle.shadow,
           blur: 8 * sizeMultiplier,
           offsetX: 0,
           offsetY: 4 * sizeMultiplier
         }
       });
     } else {
-      // Use new custom format: ID first row, area in lighter box + dimensions second row
+      // Use new custom format: ID first row, area in lighter box + dimensions second row, price (if known) third row
       canvas = CanvasTextRenderer.createBoothCalloutCanvas({
         boothId: booth.id,
         area: `Area: ${booth.area}m²`,
         dimensions: `${booth.width}m × ${booth.height}m`,
+        price: booth.price ? `Price: ${booth.price}` : undefined,
         titleFontSize: 22 * sizeMultiplier,
         contentFontSize: 18 * sizeMultiplier,
         fontFamily: 'Arial, sans-serif',
@@ -735,11 +994,11 @@ const WebGLScene: React.FC<WebGLSceneProps> = ({ areaData, currentArea, showExhi
         borderWidth: 1 * sizeMultiplier,
         maxWidth: 200 * sizeMultiplier,
         gradient: {
-          colors: ['rgba(43, 179, 43, 0.95)', 'rgba(34, 139, 34, 0.95)'],
+          colors: calloutStyle.gradient,
           direction: 'vertical'
         },
         shadow: {
-          color: 'rgba(43, 179, 43, 0.4)',
+          color: calloutStyle.shadow,
           blur: 8 * sizeMultiplier,
           offsetX: 0,
           offsetY: 4 * sizeMultiplier
@@ -771,7 +1030,7 @@ const WebGLScene: React.FC<WebGLSceneProps> = ({ areaData, currentArea, showExhi
 
     // Store booth data for reference
     sprite.userData.booth = booth;
-    sprite.userData.isTechDays2026 = currentArea === 'MainExhibitionHall';
+    sprite.userData.areaId = currentArea;
 
     // Log creation using CalloutManager
     CalloutManager.logCalloutCreation(booth.id, 'info', currentArea, sizeMultiplier, isAvailable);
@@ -789,7 +1048,7 @@ const WebGLScene: React.FC<WebGLSceneProps> = ({ areaData, currentArea, showExhi
     const displayName = booth.name; // Don't truncate, let it wrap instead
 
     // Create canvas texture for name callout with flexible width
-    const canvas = CanvasTextRenderer.createTextCanvas({
+    const textConfig: TextConfig = {
       text: displayName,
       fontSize: 16.8, // 20% larger than 14px (14 * 1.2 = 16.8)
       fontFamily: 'Arial, sans-serif',
@@ -802,7 +1061,8 @@ const WebGLScene: React.FC<WebGLSceneProps> = ({ areaData, currentArea, showExhi
       maxWidth: shouldWrap ? 80 : 200, // Narrower width for wrapping, wider for single line
       textAlign: 'center',
       lineHeight: 1.3 // Slightly more spacing for multi-line text
-    });
+    };
+    const canvas = CanvasTextRenderer.createTextCanvas(textConfig);
 
     // Create texture from canvas
     const texture = new THREE.CanvasTexture(canvas);
@@ -829,7 +1089,24 @@ const WebGLScene: React.FC<WebGLSceneProps> = ({ areaData, currentArea, showExhi
     // Store booth data for reference
     sprite.userData.booth = booth;
     sprite.userData.isNameCallout = true;
-    sprite.userData.isMainExhibitionHall = currentArea === 'MainExhibitionHall';
+    sprite.userData.areaId = currentArea;
+
+    // Swap in a logo version once the logo has loaded; the text callout stays as fallback
+    if (booth.logoUrl) {
+      LogoManager.load(booth.logoUrl).then(image => {
+        if (!image || !nameCalloutsRef.current.includes(sprite)) return;
+
+        const logoCanvas = CanvasTextRenderer.createLogoTextCanvas({
+          ...textConfig,
+          logo: image,
+          logoHeight: 28
+        });
+        material.map?.dispose();
+        material.map = new THREE.CanvasTexture(logoCanvas);
+        material.needsUpdate = true;
+        sprite.scale.set(baseScale, baseScale * (logoCanvas.height / logoCanvas.width), 1);
+      });
+    }
 
     // Log creation using CalloutManager
     CalloutManager.logCalloutCreation(booth.id, 'name', currentArea, spriteSizeMultiplier, undefined, displayName);
@@ -853,23 +1130,74 @@ const WebGLScene: React.FC<WebGLSceneProps> = ({ areaData, currentArea, showExhi
 
 
 
+  // Function to clear logo decals (also drops logos still loading)
+  const clearLogoDecals = () => {
+    logoDecalGenerationRef.current++;
+    if (sceneRef.current) {
+      LogoManager.clearLogoDecals(sceneRef.current, logoDecalsRef.current);
+    }
+  };
+
+  // Function to place logos on top of all mapped booths that have one
+  const createAllLogoDecals = () => {
+    if (!sceneRef.current) return;
+
+    clearLogoDecals();
+    const scene = sceneRef.current;
+    const generation = logoDecalGenerationRef.current;
+
+    boothMeshMapRef.current.forEach((booth, mesh) => {
+      if (!booth.logoUrl) return;
+
+      LogoManager.load(booth.logoUrl).then(image => {
+        // Booths whose logo failed keep their plain status color
+        if (!image || generation !== logoDecalGenerationRef.current || sceneRef.current !== scene) return;
+
+        const decal = LogoManager.createLogoDecal(mesh, image);
+        decal.userData.booth = booth;
+        scene.add(decal);
+        logoDecalsRef.current.push(decal);
+        applyFilterToObject(decal, booth.status);
+      });
+    });
+  };
+
   // Function to apply status colors to booth meshes
   const applyBoothStatusColors = () => {
-    if (!areaData) return;
+    const currentData = areaDataRef.current;
+    if (!currentData) return;
 
-    MaterialManager.applyBoothStatusColors(boothMeshMapRef.current, areaData.booths, areaData.areaName);
+    MaterialManager.applyBoothStatusColors(boothMeshMapRef.current, currentData.booths, currentData.areaName);
 
     // Color any unmapped meshes that match booth patterns as available (green)
     if (sceneRef.current) {
       MaterialManager.applyDefaultColorsToUnmappedMeshes(sceneRef.current, boothMeshMapRef.current);
     }
+    if (showMeshDebug) {
+      applyMeshDebugView();
+    }
+  };
+
+  // Function to label booth meshes with their names and color the unmapped ones for model authors
+  const applyMeshDebugView = () => {
+    const report = meshMappingReportRef.current;
+    if (!sceneRef.current || !report) return;
+
+    CalloutManager.clearCallouts(sceneRef.current, meshDebugLabelsRef.current);
+    const states = MeshDebugManager.classifyMeshes(sceneRef.current, boothMeshMapRef.current, report);
+    MeshDebugManager.applyDebugColors(states);
+    MeshDebugManager.createMeshLabels(states, boothMeshMapRef.current).forEach(label => {
+      CalloutManager.addCalloutToScene(sceneRef.current!, label, meshDebugLabelsRef.current);
+    });
+    console.log(`🔧 Mesh debug view: labeled ${meshDebugLabelsRef.current.length} meshes`);
   };
 
   // Function to create name callouts for all booths with names
   const createAllNameCallouts = () => {
-    if (!areaData || !sceneRef.current) return;
+    const currentData = areaDataRef.current;
+    if (!currentData || !sceneRef.current) return;
 
-    console.log(`🏢 Creating name callouts for ${areaData.areaName}`);
+    console.log(`🏢 Creating name callouts for ${currentData.areaName}`);
 
     // Clear existing name callouts
     clearNameCallouts();
@@ -891,15 +1219,70 @@ const WebGLScene: React.FC<WebGLSceneProps> = ({ areaData, currentArea, showExhi
     });
 
     console.log(`  Created ${nameCalloutsRef.current.length} name callouts`);
+    applyStatusFilter();
+  };
+
+  // Function to dim or hide one booth-related object for the current status filter
+  const applyFilterToObject = (object: THREE.Mesh | THREE.Sprite, status: string) => {
+    const filter = statusFilterRef.current;
+    MaterialManager.applyFilterVisibility(
+      object,
+      MaterialManager.matchesStatusFilter(status, filter),
+      filter?.mode || 'dim'
+    );
   };
 
+  // Function to apply the status filter to booth meshes, name callouts and logo decals
+  const applyStatusFilter = () => {
+    boothMeshMapRef.current.forEach((booth, mesh) => applyFilterToObject(mesh, booth.status));
+    nameCalloutsRef.current.forEach(callout => applyFilterToObject(callout, callout.userData.booth.status));
+    logoDecalsRef.current.forEach(decal => applyFilterToObject(decal, decal.userData.booth.status));
+  };
 
 
-  if (!areaData) {
-    return <div>Loading scene...</div>;
+  // The live view, which may differ from the reported one while a tour or damping moves the camera
+  if (cameraViewReaderRef) {
+    cameraViewReaderRef.current = () => (cameraRef.current && controlsRef.current
+      ? CameraAnimator.getCurrentPosition(cameraRef.current, controlsRef.current)
+      : null);
   }
 
-  return <div ref={mountRef} style={{ width: '100%', height: '100vh' }} />;
+  handlersRef.current = {
+    onHover: handleHover,
+    onTap: handleTap,
+    onLongPress: handleLongPress,
+    onKeyDown: handleKeyDown,
+    onKeyUp: handleKeyUp,
+    onInteractionStart: handleGenuineUserInteraction,
+    onCameraChange: handleCameraChange,
+    onCameraInteractionEnd: handleCameraInteractionEnd,
+    reportCameraView,
+    startTour,
+    stopTour,
+    onTourStep: handleTourStep,
+    onTourArrive: handleTourArrive,
+    onTourComplete: handleTourComplete,
+    initializeBooths,
+    onModelLevelChange: handleModelLevelChange
+  };
+
+  // The mount stays in place while booth data loads so the scene is only created once
+  return (
+    <div style={{ position: 'relative', width: '100%', height: '100vh' }}>
+      <div ref={mountRef} style={{ width: '100%', height: '100%' }} />
+      <ModelLoadingOverlay
+        state={modelLoadState}
+        areaName={getAreaName(currentArea)}
+        onRetry={() => setModelLoadAttempt(attempt => attempt + 1)}
+      />
+      {tourState !== 'stopped' && <TourCaption caption={tourCaption} paused={tourState === 'paused'} />}
+      {!areaData && modelLoadState.status === 'ready' && (
+        <div style={{ position: 'absolute', top: '50%', left: '50%', transform: 'translate(-50%, -50%)' }}>
+          Loading scene...
+        </div>
+      )}
+    </div>
+  );
 };
 
 export default WebGLScene;
\ No newline at end of file
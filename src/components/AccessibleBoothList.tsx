@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Booth } from '../types/booth';
+import { getStatusStyle } from '../config/statusTheme';
+
+interface AccessibleBoothListProps {
+  booths: Booth[];
+  selectedBoothId: string | null; // Booth opened in the scene
+  focusedBoothId: string | null; // Booth reached with Tab in the scene
+  onSelect: (booth: Booth) => void;
+}
+
+// Clipped to nothing but still read by screen readers
+const visuallyHiddenStyle: React.CSSProperties = {
+  position: 'absolute',
+  width: '1px',
+  height: '1px',
+  margin: '-1px',
+  padding: 0,
+  border: 0,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap'
+};
+
+// Shown while a keyboard user is inside the list
+const focusedStyle: React.CSSProperties = {
+  position: 'absolute',
+  top: '70px',
+  left: '20px',
+  zIndex: 1200,
+  background: 'rgba(0,0,0,0.9)',
+  padding: '10px 15px',
+  borderRadius: '8px',
+  color: 'white',
+  fontSize: '13px',
+  maxHeight: '60vh',
+  overflowY: 'auto'
+};
+
+const describeBooth = (booth: Booth): string => {
+  const exhibitor = booth.name && booth.name.trim() !== '' ? `, ${booth.name}` : '';
+  return `Booth ${booth.id}: ${getStatusStyle(booth.status).label}${exhibitor}`;
+};
+
+// Booth list for screen readers and keyboard users, kept in sync with the booth selected or focused in the 3D scene
+export default function AccessibleBoothList({ booths, selectedBoothId, focusedBoothId, onSelect }: AccessibleBoothListProps) {
+  const [hasFocus, setHasFocus] = useState<boolean>(false);
+
+  const sortedBooths = [...booths].sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+  const announcedBooth = booths.find(booth => booth.id === (focusedBoothId || selectedBoothId));
+
+  return (
+    <nav
+      aria-label="Booths"
+      style={hasFocus ? focusedStyle : visuallyHiddenStyle}
+      onFocus={() => setHasFocus(true)}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setHasFocus(false);
+      }}
+    >
+      <div aria-live="polite" style={visuallyHiddenStyle}>
+        {announcedBooth ? describeBooth(announcedBooth) : ''}
+      </div>
+      <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+        {sortedBooths.map(booth => (
+          <li key={booth.id}>
+            <button
+              aria-current={booth.id === selectedBoothId ? 'true' : undefined}
+              onClick={() => onSelect(booth)}
+              style={{
+                display: 'block',
+                width: '100%',
+                padding: '2px 4px',
+                border: 'none',
+                background: booth.id === selectedBoothId ? 'rgba(255,255,255,0.2)' : 'transparent',
+                color: 'white',
+                textAlign: 'left',
+                fontSize: '13px',
+                cursor: 'pointer'
+              }}
+            >
+              {describeBooth(booth)}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+}
@@ -1,4 +1,5 @@
 import React from 'react';
+import { getEvents } from '../config/eventRegistry';
 
 export interface Area {
   id: string;
@@ -10,20 +11,22 @@ interface AreaSelectorProps {
   onAreaChange: (areaId: string) => void;
   showExhibitorDetails: boolean;
   onToggleExhibitorDetails: (show: boolean) => void;
+  showLogoDecals: boolean;
+  onToggleLogoDecals: (show: boolean) => void;
+  showStatistics: boolean;
+  onToggleStatistics: (show: boolean) => void;
 }
 
-const otdTechDays2026Areas: Area[] = [
-  { id: 'MainExhibitionHall', name: 'MainExhibitionHall' }
-];
-
-const otdEnergy2027Areas: Area[] = [
-  { id: 'all_in_one', name: 'Exhibition OTD Energy' },
-  { id: 'Hall_B_2', name: 'Exhibition Hall B' },
-  { id: 'Hall_C', name: 'Exhibition Hall C' },
-  { id: 'Hall_E_3', name: 'Exhibition Hall E' }
-];
-
-export default function AreaSelector({ currentArea, onAreaChange, showExhibitorDetails, onToggleExhibitorDetails }: AreaSelectorProps) {
+export default function AreaSelector({
+  currentArea,
+  onAreaChange,
+  showExhibitorDetails,
+  onToggleExhibitorDetails,
+  showLogoDecals,
+  onToggleLogoDecals,
+  showStatistics,
+  onToggleStatistics
+}: AreaSelectorProps) {
   return (
     <div style={{
       position: 'absolute',
@@ -34,72 +37,47 @@ export default function AreaSelector({ currentArea, onAreaChange, showExhibitorD
       flexDirection: 'column',
       gap: '15px'
     }}>
-      {/* OTD TechDays 2026 Panel */}
-      <div style={{
-        background: 'rgba(0,0,0,0.8)',
-        padding: '15px',
-        borderRadius: '8px',
-        color: 'white'
-      }}>
-        <h3 style={{ margin: '0 0 10px 0', fontSize: '16px' }}>OTD TechDays 2026</h3>
-        {otdTechDays2026Areas.map(area => (
-          <button
-            key={area.id}
-            onClick={() => onAreaChange(area.id)}
-            style={{
-              display: 'block',
-              width: '100%',
-              margin: '5px 0',
-              padding: '8px 12px',
-              border: 'none',
-              borderRadius: '4px',
-              background: currentArea === area.id ? '#66aaff' : '#444',
-              color: 'white',
-              cursor: 'pointer',
-              fontSize: '14px'
-            }}
-          >
-            {area.name}
-          </button>
-        ))}
-      </div>
-
-      {/* OTD Energy 2027 Panel */}
-      <div style={{
-        background: 'rgba(0,0,0,0.8)',
-        padding: '15px',
-        borderRadius: '8px',
-        color: 'white'
-      }}>
-        <h3 style={{ margin: '0 0 10px 0', fontSize: '16px' }}>OTD Energy 2027</h3>
-        {otdEnergy2027Areas.map(area => (
-          <button
-            key={area.id}
-            onClick={() => onAreaChange(area.id)}
-            style={{
-              display: 'block',
-              width: '100%',
-              margin: '5px 0',
-              padding: '8px 12px',
-              border: 'none',
-              borderRadius: '4px',
-              background: currentArea === area.id ? '#66aaff' : '#444',
-              color: 'white',
-              cursor: 'pointer',
-              fontSize: '14px'
-            }}
-          >
-            {area.name}
-          </button>
-        ))}
-      </div>
+      {/* One panel per event from the event manifest */}
+      {getEvents().map(event => (
+        <div key={event.id} style={{
+          background: 'rgba(0,0,0,0.8)',
+          padding: '15px',
+          borderRadius: '8px',
+          color: 'white'
+        }}>
+          <h3 style={{ margin: '0 0 10px 0', fontSize: '16px' }}>{event.name}</h3>
+          {event.areas.map(area => (
+            <button
+              key={area.id}
+              onClick={() => onAreaChange(area.id)}
+              style={{
+                display: 'block',
+                width: '100%',
+                margin: '5px 0',
+                padding: '8px 12px',
+                border: 'none',
+                borderRadius: '4px',
+                background: currentArea === area.id ? '#66aaff' : '#444',
+                color: 'white',
+                cursor: 'pointer',
+                fontSize: '14px'
+              }}
+            >
+              {area.name}
+            </button>
+          ))}
+        </div>
+      ))}
 
-      {/* Exhibitor Details Toggle */}
+      {/* Exhibitor Details Toggles */}
       <div style={{
         background: 'rgba(0,0,0,0.8)',
         padding: '15px',
         borderRadius: '8px',
-        color: 'white'
+        color: 'white',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '10px'
       }}>
         <label style={{
           display: 'flex',
@@ -121,6 +99,46 @@ export default function AreaSelector({ currentArea, onAreaChange, showExhibitorD
           />
           Show Exhibitor Details
         </label>
+        <label style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '10px',
+          cursor: 'pointer',
+          fontSize: '14px',
+          userSelect: 'none'
+        }}>
+          <input
+            type="checkbox"
+            checked={showLogoDecals}
+            onChange={(e) => onToggleLogoDecals(e.target.checked)}
+            style={{
+              width: '16px',
+              height: '16px',
+              cursor: 'pointer'
+            }}
+          />
+          Show Logos on Booths
+        </label>
+        <label style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '10px',
+          cursor: 'pointer',
+          fontSize: '14px',
+          userSelect: 'none'
+        }}>
+          <input
+            type="checkbox"
+            checked={showStatistics}
+            onChange={(e) => onToggleStatistics(e.target.checked)}
+            style={{
+              width: '16px',
+              height: '16px',
+              cursor: 'pointer'
+            }}
+          />
+          Show Statistics
+        </label>
       </div>
     </div>
   );
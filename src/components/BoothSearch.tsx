@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Booth } from '../types/booth';
+import { BoothMatcher } from '../utils/searchUtils';
+import { findAreaForBooth, getAreaName } from '../config/eventRegistry';
+
+interface BoothSearchProps {
+  booths: Booth[];
+  currentArea: string;
+  onSelect: (booth: Booth) => void;
+}
+
+export default function BoothSearch({ booths, currentArea, onSelect }: BoothSearchProps) {
+  const [query, setQuery] = useState<string>('');
+  const [activeIndex, setActiveIndex] = useState<number>(0);
+
+  const results = BoothMatcher.search(booths, query);
+
+  const selectResult = (booth: Booth) => {
+    onSelect(booth);
+    setQuery('');
+    setActiveIndex(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(Math.min(activeIndex + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(Math.max(activeIndex - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      selectResult(results[activeIndex].booth);
+    } else if (e.key === 'Escape') {
+      setQuery('');
+    }
+  };
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '20px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      zIndex: 1000,
+      width: '320px'
+    }}>
+      <input
+        type="search"
+        value={query}
+        placeholder="Search booth or exhibitor…"
+        aria-label="Search booth or exhibitor"
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        style={{
+          width: '100%',
+          boxSizing: 'border-box',
+          padding: '10px 12px',
+          border: 'none',
+          borderRadius: '8px',
+          background: 'rgba(0,0,0,0.8)',
+          color: 'white',
+          fontSize: '14px'
+        }}
+      />
+
+      {query && (
+        <div style={{
+          marginTop: '4px',
+          background: 'rgba(0,0,0,0.8)',
+          borderRadius: '8px',
+          overflow: 'hidden',
+          color: 'white',
+          fontSize: '14px'
+        }}>
+          {results.length === 0 && (
+            <div style={{ padding: '8px 12px', color: '#aaa' }}>No booths found</div>
+          )}
+          {results.map((result, index) => (
+            <button
+              key={result.booth.id}
+              onClick={() => selectResult(result.booth)}
+              onMouseEnter={() => setActiveIndex(index)}
+              style={{
+                display: 'block',
+                width: '100%',
+                padding: '8px 12px',
+                border: 'none',
+                background: index === activeIndex ? '#66aaff' : 'transparent',
+                color: 'white',
+                cursor: 'pointer',
+                textAlign: 'left',
+                fontSize: '14px'
+              }}
+            >
+              <strong>{result.booth.id}</strong>
+              {result.booth.name && ` – ${result.booth.name}`}
+              <span style={{ float: 'right', fontSize: '12px', color: '#ddd' }}>
+                {getAreaName(findAreaForBooth(result.booth.id, currentArea))}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
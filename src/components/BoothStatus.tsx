@@ -1,22 +1,31 @@
 import React from 'react';
-import { AreaData, BoothStatus as BoothStatusType } from '../types/booth';
+import { AreaData, Booth } from '../types/booth';
+import { getEventForArea } from '../config/eventRegistry';
+import { MaterialManager } from '../utils/materialUtils';
+import { BoothStatistics } from '../utils/statsUtils';
 
 interface BoothStatusProps {
   areaData: AreaData | null;
+  currentArea: string;
+  baselineBooths: Booth[] | null; // Booths of the event as first loaded, for the "since load" trend
 }
 
-export default function BoothStatus({ areaData }: BoothStatusProps) {
+const formatArea = (squareMetres: number): string => `${Math.round(squareMetres).toLocaleString()} m²`;
+
+const formatTrend = (current: number, initial: number | undefined): string | null => {
+  if (initial === undefined || current === initial) return null;
+  return current > initial ? `+${current - initial}` : `${current - initial}`;
+};
+
+export default function BoothStatus({ areaData, currentArea, baselineBooths }: BoothStatusProps) {
   if (!areaData || !areaData.booths) return null;
 
-  const statusCounts = areaData.booths.reduce((acc: Record<BoothStatusType, number>, booth) => {
-    acc[booth.status] = (acc[booth.status] || 0) + 1;
-    return acc;
-  }, {} as Record<BoothStatusType, number>);
+  const event = getEventForArea(currentArea);
+  const groups = BoothStatistics.computeGroups(event, areaData.booths);
+  const baselineGroups = baselineBooths ? BoothStatistics.computeGroups(event, baselineBooths) : [];
 
-  const totalBooths = areaData.booths.length;
-  const soldBooths = statusCounts.sold || 0;
-  const reservedBooths = statusCounts.reserved || 0;
-  const availableBooths = statusCounts.available || 0;
+  const soldColor = MaterialManager.getStatusCssColor('sold');
+  const availableColor = MaterialManager.getStatusCssColor('available');
 
   return (
     <div style={{
@@ -28,29 +37,64 @@ export default function BoothStatus({ areaData }: BoothStatusProps) {
       padding: '15px',
       borderRadius: '8px',
       color: 'white',
-      minWidth: '200px'
+      minWidth: '240px',
+      maxHeight: 'calc(100vh - 200px)',
+      overflowY: 'auto'
     }}>
-      <h3 style={{ margin: '0 0 10px 0', fontSize: '16px' }}>
-        {areaData.areaName}
-      </h3>
-      <div style={{ fontSize: '14px' }}>
-        <div style={{ margin: '5px 0' }}>
-          <span style={{ color: '#66aaff' }}>●</span> Sold: {soldBooths}
-        </div>
-        <div style={{ margin: '5px 0' }}>
-          <span style={{ color: '#ffaa66' }}>●</span> Reserved: {reservedBooths}
-        </div>
-        <div style={{ margin: '5px 0' }}>
-          <span style={{ color: '#cccccc' }}>●</span> Available: {availableBooths}
-        </div>
-        <hr style={{ margin: '10px 0', border: '1px solid #444' }} />
-        <div style={{ fontWeight: 'bold' }}>
-          Total: {totalBooths} booths
-        </div>
-        <div style={{ fontSize: '12px', marginTop: '5px', color: '#aaa' }}>
-          {Math.round((soldBooths / totalBooths) * 100)}% sold
-        </div>
-      </div>
+      {groups.map((group, index) => {
+        const { stats } = group;
+        const initial = baselineGroups.find(baseline => baseline.key === group.key)?.stats;
+        const soldTrend = formatTrend(stats.sold, initial?.sold);
+        const reservedTrend = formatTrend(stats.reserved, initial?.reserved);
+
+        return (
+          <div key={group.key} style={{ marginTop: index === 0 ? 0 : '15px' }}>
+            <h3 style={{ margin: '0 0 8px 0', fontSize: index === 0 ? '16px' : '14px' }}>
+              {group.label}
+            </h3>
+
+            {stats.total === 0 ? (
+              <div style={{ fontSize: '12px', color: '#aaa' }}>No booths</div>
+            ) : (
+              <div style={{ fontSize: '13px' }}>
+                <div style={{ margin: '3px 0' }}>
+                  <span style={{ color: soldColor }}>●</span> Sold: {stats.sold}
+                  {soldTrend && <span style={{ color: '#8f8', marginLeft: '6px' }}>{soldTrend} since load</span>}
+                </div>
+                <div style={{ margin: '3px 0' }}>
+                  <span style={{ color: MaterialManager.getStatusCssColor('reserved') }}>●</span> Reserved: {stats.reserved}
+                  {reservedTrend && <span style={{ color: '#8f8', marginLeft: '6px' }}>{reservedTrend} since load</span>}
+                </div>
+                <div style={{ margin: '3px 0' }}>
+                  <span style={{ color: availableColor }}>●</span> Available: {stats.available}
+                </div>
+                {stats.other > 0 && (
+                  <div style={{ margin: '3px 0' }}>
+                    <span style={{ color: '#aaa' }}>●</span> Other (on hold, sponsor, …): {stats.other}
+                  </div>
+                )}
+                <div style={{ margin: '3px 0', color: '#ccc' }}>
+                  {formatArea(stats.soldArea)} of {formatArea(stats.totalArea)} sold
+                </div>
+
+                {/* Sold percentage bar */}
+                <div style={{
+                  height: '6px',
+                  marginTop: '6px',
+                  borderRadius: '3px',
+                  background: availableColor,
+                  overflow: 'hidden'
+                }}>
+                  <div style={{ width: `${stats.soldPercent}%`, height: '100%', background: soldColor }} />
+                </div>
+                <div style={{ fontSize: '12px', marginTop: '4px', color: '#aaa' }}>
+                  {Math.round(stats.soldPercent)}% of {stats.total} booths sold
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { DataQualityIssue, DataQualityIssueType, DataQualityReport } from '../types/dataQuality';
+
+interface DataQualityPanelProps {
+  report: DataQualityReport | null;
+  meshIssues: DataQualityIssue[];
+}
+
+const ISSUE_LABELS: Record<DataQualityIssueType, string> = {
+  'missing-id': 'Rows without ID',
+  'duplicate-id': 'Duplicate IDs',
+  'unknown-status': 'Unknown statuses',
+  'invalid-number': 'Non-numeric dimensions',
+  'area-mismatch': 'Area ≠ width × length',
+  'missing-name': 'Sold without exhibitor name',
+  'no-mesh': 'No matching mesh',
+  'ambiguous-mesh': 'Ambiguous mesh names',
+  'orphan-mesh': 'Booth meshes without data'
+};
+
+// Development-only panel listing sheet problems so they can be fixed before an event goes live
+export default function DataQualityPanel({ report, meshIssues }: DataQualityPanelProps) {
+  const [expanded, setExpanded] = useState<boolean>(false);
+
+  if (!report) return null;
+
+  const issues = [...report.issues, ...meshIssues];
+  const groupedIssues = issues.reduce((acc, issue) => {
+    (acc[issue.type] = acc[issue.type] || []).push(issue);
+    return acc;
+  }, {} as Partial<Record<DataQualityIssueType, DataQualityIssue[]>>);
+
+  return (
+    <div style={{
+      position: 'absolute',
+      bottom: '20px',
+      left: '20px',
+      zIndex: 1000,
+      background: 'rgba(0,0,0,0.8)',
+      padding: '10px 15px',
+      borderRadius: '8px',
+      color: 'white',
+      fontSize: '13px',
+      maxWidth: '420px',
+      maxHeight: '50vh',
+      overflowY: 'auto'
+    }}>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        style={{
+          background: 'none',
+          border: 'none',
+          padding: 0,
+          color: issues.length > 0 ? '#ffaa66' : '#8fd18f',
+          cursor: 'pointer',
+          fontSize: '14px',
+          fontWeight: 'bold'
+        }}
+      >
+        {expanded ? '▾' : '▸'} Data quality: {issues.length === 0 ? 'no issues' : `${issues.length} issues`}
+      </button>
+
+      {expanded && (
+        <div style={{ marginTop: '8px' }}>
+          <div style={{ color: '#aaa', fontSize: '12px', marginBottom: '8px' }}>
+            {report.rowCount} rows from {report.source}, checked {new Date(report.checkedAt).toLocaleTimeString()}
+          </div>
+          {(Object.keys(groupedIssues) as DataQualityIssueType[]).map(type => (
+            <div key={type} style={{ margin: '8px 0' }}>
+              <div style={{ fontWeight: 'bold' }}>
+                {ISSUE_LABELS[type]} ({groupedIssues[type]!.length})
+              </div>
+              <ul style={{ margin: '4px 0', paddingLeft: '18px' }}>
+                {groupedIssues[type]!.map((issue, index) => (
+                  <li key={index}>{issue.message}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import React from 'react';
+import { BoothDataError } from '../services/boothDataSources';
+
+interface DataStatusBannerProps {
+  dataAsOf: number | null; // When the shown booth data was fetched; null while it is current
+  error: BoothDataError | null; // Last load failure
+  retrying: boolean; // A reload is in flight
+  onRetry: () => void;
+}
+
+const formatTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  // Include the date when the data is from an earlier day
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString()} ${time}`;
+};
+
+const describeError = (error: BoothDataError): string => {
+  switch (error.kind) {
+    case 'network':
+      return 'Offline';
+    case 'http':
+      return `Booth data unavailable (HTTP ${error.status ?? 'error'})`;
+    case 'parse':
+      return 'Booth data could not be read';
+    case 'schema':
+      return 'Booth data has an unexpected format';
+  }
+};
+
+// Non-blocking banner shown while booth data may be stale or failed to load,
+// so visitors don't trust outdated availability
+export default function DataStatusBanner({ dataAsOf, error, retrying, onRetry }: DataStatusBannerProps) {
+  if (dataAsOf === null && !error) return null;
+
+  const summary = error ? describeError(error) : 'Offline';
+  const detail = dataAsOf !== null ? `data as of ${formatTime(dataAsOf)}` : 'no booth data yet';
+
+  return (
+    <div
+      role="alert"
+      title={error?.message}
+      style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        right: 0,
+        zIndex: 1150,
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'center',
+        gap: '12px',
+        padding: '4px 12px',
+        background: error && error.kind !== 'network' ? 'rgba(185, 28, 28, 0.95)' : 'rgba(180, 83, 9, 0.95)',
+        color: 'white',
+        fontSize: '14px',
+        fontWeight: 'bold',
+        pointerEvents: 'none'
+      }}
+    >
+      <span>{error && error.kind !== 'network' ? '⚠️' : '📴'} {summary} – {detail}</span>
+      {error && (
+        <button
+          onClick={onRetry}
+          disabled={retrying}
+          style={{
+            pointerEvents: 'auto',
+            padding: '2px 10px',
+            border: '1px solid white',
+            borderRadius: '4px',
+            background: 'transparent',
+            color: 'white',
+            fontSize: '13px',
+            cursor: retrying ? 'default' : 'pointer',
+            opacity: retrying ? 0.6 : 1
+          }}
+        >
+          {retrying ? 'Retrying…' : 'Retry'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Booth } from '../types/booth';
+import { MaterialManager } from '../utils/materialUtils';
+import { CalloutManager } from '../utils/calloutUtils';
+
+interface ExhibitorPanelProps {
+  booth: Booth | null;
+  areaName: string;
+  onClose: () => void;
+}
+
+const sectionTitleStyle: React.CSSProperties = {
+  margin: '16px 0 6px 0',
+  fontSize: '12px',
+  textTransform: 'uppercase',
+  letterSpacing: '0.05em',
+  color: '#aaa'
+};
+
+export default function ExhibitorPanel({ booth, areaName, onClose }: ExhibitorPanelProps) {
+  // Logos that failed to load (broken URL, CORS, ...) are hidden instead of showing a broken image
+  const [failedLogoUrl, setFailedLogoUrl] = useState<string | null>(null);
+
+  if (!booth) return null;
+
+  const hasName = booth.name && booth.name.trim() !== '';
+  const showLogo = booth.logoUrl && booth.logoUrl !== failedLogoUrl;
+  const hasContact = booth.contactName || booth.contactEmail || booth.contactPhone;
+  const hasDetails = booth.description || booth.website || hasContact || (booth.categories && booth.categories.length > 0);
+
+  return (
+    <aside
+      aria-label={`Booth ${booth.id} details`}
+      style={{
+        position: 'absolute',
+        top: 0,
+        right: 0,
+        bottom: 0,
+        zIndex: 1100,
+        width: '340px',
+        maxWidth: '100%',
+        boxSizing: 'border-box',
+        overflowY: 'auto',
+        background: 'rgba(0,0,0,0.85)',
+        padding: '20px',
+        color: 'white',
+        fontSize: '14px'
+      }}
+    >
+      <button
+        onClick={onClose}
+        aria-label="Close booth details"
+        style={{
+          position: 'absolute',
+          top: '12px',
+          right: '12px',
+          border: 'none',
+          background: 'none',
+          color: 'white',
+          fontSize: '20px',
+          cursor: 'pointer'
+        }}
+      >
+        ×
+      </button>
+
+      {showLogo && (
+        <img
+          src={booth.logoUrl}
+          alt={`${booth.name} logo`}
+          onError={() => setFailedLogoUrl(booth.logoUrl || null)}
+          style={{
+            display: 'block',
+            maxWidth: '100%',
+            maxHeight: '80px',
+            marginBottom: '12px',
+            background: 'white',
+            padding: '6px',
+            borderRadius: '4px'
+          }}
+        />
+      )}
+
+      <h2 style={{ margin: '0 30px 6px 0', fontSize: '20px' }}>
+        {hasName ? booth.name : 'Available booth'}
+      </h2>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <span style={{
+          padding: '2px 8px',
+          borderRadius: '10px',
+          background: MaterialManager.getStatusCssColor(booth.status),
+          fontSize: '12px'
+        }}>
+          {CalloutManager.getFormattedStatusText(booth.status)}
+        </span>
+        <span>{booth.id}</span>
+      </div>
+
+      <div style={sectionTitleStyle}>Stand</div>
+      <div>{booth.standNumber || booth.id} · {areaName}</div>
+      {(booth.width > 0 || booth.area > 0) && (
+        <div style={{ color: '#ccc' }}>
+          {booth.width > 0 && booth.height > 0 && `${booth.width}m × ${booth.height}m`}
+          {booth.area > 0 && ` (${booth.area}m²)`}
+        </div>
+      )}
+
+      {booth.description && (
+        <>
+          <div style={sectionTitleStyle}>About</div>
+          <p style={{ margin: 0, lineHeight: 1.4 }}>{booth.description}</p>
+        </>
+      )}
+
+      {booth.categories && booth.categories.length > 0 && (
+        <>
+          <div style={sectionTitleStyle}>Product categories</div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+            {booth.categories.map(category => (
+              <span key={category} style={{
+                padding: '2px 8px',
+                borderRadius: '10px',
+                background: '#444',
+                fontSize: '12px'
+              }}>
+                {category}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+
+      {booth.website && (
+        <>
+          <div style={sectionTitleStyle}>Website</div>
+          <a href={booth.website} target="_blank" rel="noopener noreferrer" style={{ color: '#66aaff' }}>
+            {booth.website.replace(/^https?:\/\//i, '')}
+          </a>
+        </>
+      )}
+
+      {hasContact && (
+        <>
+          <div style={sectionTitleStyle}>Contact</div>
+          {booth.contactName && <div>{booth.contactName}</div>}
+          {booth.contactEmail && (
+            <div><a href={`mailto:${booth.contactEmail}`} style={{ color: '#66aaff' }}>{booth.contactEmail}</a></div>
+          )}
+          {booth.contactPhone && (
+            <div><a href={`tel:${booth.contactPhone}`} style={{ color: '#66aaff' }}>{booth.contactPhone}</a></div>
+          )}
+        </>
+      )}
+
+      {hasName && !hasDetails && (
+        <p style={{ marginTop: '16px', color: '#aaa' }}>No additional exhibitor information yet.</p>
+      )}
+    </aside>
+  );
+}
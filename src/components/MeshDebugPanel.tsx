@@ -0,0 +1,92 @@
+import React from 'react';
+import { MeshMappingReport } from '../types/dataQuality';
+import { MESH_DEBUG_COLORS, MeshDebugManager } from '../utils/meshDebugUtils';
+
+interface MeshDebugPanelProps {
+  report: MeshMappingReport | null;
+  areaId: string;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '4px 10px',
+  border: '1px solid #888',
+  borderRadius: '4px',
+  background: 'transparent',
+  color: 'white',
+  fontSize: '12px',
+  cursor: 'pointer'
+};
+
+const Section = ({ color, title, items }: { color: string; title: string; items: string[] }) => (
+  <div style={{ marginTop: '8px' }}>
+    <div style={{ color, fontWeight: 'bold' }}>■ {title} ({items.length})</div>
+    {items.length > 0 && (
+      <ul style={{ margin: '4px 0', paddingLeft: '18px', fontFamily: 'monospace', fontSize: '12px' }}>
+        {items.map(item => <li key={item}>{item}</li>)}
+      </ul>
+    )}
+  </div>
+);
+
+// Mesh mapping results for model authors (?debug=meshes), with the color legend of the 3D labels and report export
+export default function MeshDebugPanel({ report, areaId }: MeshDebugPanelProps) {
+  if (!report) return null;
+
+  const exportReport = (format: 'json' | 'csv') => {
+    const fileName = `mesh-mapping-${areaId}.${format}`;
+    if (format === 'json') {
+      MeshDebugManager.downloadFile(MeshDebugManager.createJsonExport(report, areaId), fileName, 'application/json');
+    } else {
+      MeshDebugManager.downloadFile(MeshDebugManager.createCsvExport(report), fileName, 'text/csv');
+    }
+  };
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '50%',
+      right: '20px',
+      transform: 'translateY(-50%)',
+      zIndex: 1000,
+      background: 'rgba(0,0,0,0.85)',
+      padding: '10px 15px',
+      borderRadius: '8px',
+      color: 'white',
+      fontSize: '13px',
+      width: '300px',
+      maxHeight: '60vh',
+      overflowY: 'auto'
+    }}>
+      <div style={{ fontWeight: 'bold', fontSize: '14px' }}>Mesh mapping – {areaId}</div>
+      <div style={{ display: 'flex', gap: '6px', marginTop: '8px' }}>
+        <button style={buttonStyle} onClick={() => exportReport('json')}>Export JSON</button>
+        <button style={buttonStyle} onClick={() => exportReport('csv')}>Export CSV</button>
+      </div>
+
+      <div style={{ marginTop: '8px', color: MESH_DEBUG_COLORS.mapped, fontWeight: 'bold' }}>
+        ■ Mapped booths ({report.matches.length})
+      </div>
+      <div style={{ fontSize: '12px', color: '#aaa' }}>Mapped meshes keep their status colors</div>
+      <Section
+        color={MESH_DEBUG_COLORS.missing}
+        title="Booths without a mesh"
+        items={report.unmappedBoothIds.filter(boothId =>
+          !report.ambiguousBooths.some(entry => entry.boothId === boothId)
+        )}
+      />
+      <Section
+        color={MESH_DEBUG_COLORS.ambiguous}
+        title="Ambiguous booths"
+        items={report.ambiguousBooths.map(({ boothId, meshNames }) => `${boothId}: ${meshNames.join(', ')}`)}
+      />
+      <Section color={MESH_DEBUG_COLORS.orphan} title="Booth meshes without a booth" items={report.orphanMeshNames} />
+      {report.missingManifestMeshes.length > 0 && (
+        <Section
+          color={MESH_DEBUG_COLORS.missing}
+          title="meshMapping entries not in the model"
+          items={report.missingManifestMeshes.map(({ boothId, mesh }) => `${boothId} → ${mesh}`)}
+        />
+      )}
+    </div>
+  );
+}
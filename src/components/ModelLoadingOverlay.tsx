@@ -0,0 +1,110 @@
+import React from 'react';
+import { ModelLoadProgress } from '../utils/sceneUtils';
+
+export type ModelLoadState =
+  | { status: 'loading'; progress: ModelLoadProgress | null }
+  | { status: 'error'; message: string }
+  | { status: 'ready'; fallback: boolean }; // fallback: the lower-detail model is shown
+
+interface ModelLoadingOverlayProps {
+  state: ModelLoadState;
+  areaName: string;
+  onRetry: () => void;
+}
+
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const boxStyle: React.CSSProperties = {
+  position: 'absolute',
+  top: '50%',
+  left: '50%',
+  transform: 'translate(-50%, -50%)',
+  zIndex: 900,
+  background: 'rgba(0,0,0,0.8)',
+  padding: '20px 24px',
+  borderRadius: '8px',
+  color: 'white',
+  fontSize: '16px',
+  textAlign: 'center',
+  minWidth: '280px',
+  maxWidth: '420px'
+};
+
+// Model download progress, load errors with retry, and a note when the simplified model is shown
+export default function ModelLoadingOverlay({ state, areaName, onRetry }: ModelLoadingOverlayProps) {
+  if (state.status === 'ready') {
+    if (!state.fallback) return null;
+
+    return (
+      <div style={{
+        position: 'absolute',
+        bottom: '80px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 900,
+        padding: '6px 12px',
+        borderRadius: '6px',
+        background: 'rgba(0,0,0,0.7)',
+        color: 'white',
+        fontSize: '13px',
+        pointerEvents: 'none'
+      }}>
+        Showing a simplified model of {areaName}
+      </div>
+    );
+  }
+
+  if (state.status === 'error') {
+    return (
+      <div role="alert" style={boxStyle}>
+        <div style={{ fontWeight: 'bold', marginBottom: '8px' }}>
+          ⚠️ The 3D model of {areaName} couldn't be loaded
+        </div>
+        <div style={{ fontSize: '14px', opacity: 0.85, marginBottom: '6px' }}>
+          Check the network connection and try again.
+        </div>
+        <div style={{ fontSize: '12px', opacity: 0.6, marginBottom: '14px', wordBreak: 'break-word' }}>
+          {state.message}
+        </div>
+        <button
+          onClick={onRetry}
+          style={{
+            padding: '6px 18px',
+            border: 'none',
+            borderRadius: '4px',
+            background: '#4CAF50',
+            color: 'white',
+            fontSize: '14px',
+            cursor: 'pointer'
+          }}
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  const { progress } = state;
+  const percent = progress && progress.total > 0 ? Math.min(100, (progress.loaded / progress.total) * 100) : null;
+
+  return (
+    <div role="status" aria-live="polite" style={{ ...boxStyle, pointerEvents: 'none' }}>
+      <div style={{ marginBottom: '10px' }}>Loading 3D model of {areaName}…</div>
+      <div style={{ height: '6px', borderRadius: '3px', background: 'rgba(255,255,255,0.2)', overflow: 'hidden' }}>
+        <div style={{
+          width: `${percent ?? 0}%`,
+          height: '100%',
+          background: '#4CAF50',
+          transition: 'width 0.2s'
+        }} />
+      </div>
+      <div style={{ fontSize: '13px', opacity: 0.8, marginTop: '8px' }}>
+        {progress
+          ? progress.total > 0
+            ? `${formatMegabytes(progress.loaded)} of ${formatMegabytes(progress.total)}`
+            : formatMegabytes(progress.loaded)
+          : 'Starting download…'}
+      </div>
+    </div>
+  );
+}
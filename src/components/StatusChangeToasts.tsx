@@ -0,0 +1,78 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BoothStatusChange } from '../types/booth';
+import { BoothChangeDetector } from '../utils/changeUtils';
+import { MaterialManager } from '../utils/materialUtils';
+
+interface StatusChangeToastsProps {
+  changes: BoothStatusChange[];
+}
+
+const TOAST_DURATION = 6000; // ms each toast stays visible
+const MAX_TOASTS = 4;
+
+// Toasts for booth status changes, e.g. "B-2050 reserved by Fjordkraft" on the sales wall screen
+export default function StatusChangeToasts({ changes }: StatusChangeToastsProps) {
+  const [toasts, setToasts] = useState<BoothStatusChange[]>([]);
+  // Changes from before mount are not shown
+  const lastShownIdRef = useRef<number>(changes.length > 0 ? changes[changes.length - 1].id : 0);
+  const timersRef = useRef<Set<ReturnType<typeof setTimeout>>>(new Set()); // Pending toast removals
+
+  useEffect(() => {
+    const newChanges = changes.filter(change => change.id > lastShownIdRef.current);
+    if (newChanges.length === 0) return;
+
+    lastShownIdRef.current = newChanges[newChanges.length - 1].id;
+    setToasts(current => current.concat(newChanges).slice(-MAX_TOASTS));
+
+    const newIds = new Set(newChanges.map(change => change.id));
+    const timer = setTimeout(() => {
+      timersRef.current.delete(timer);
+      setToasts(current => current.filter(toast => !newIds.has(toast.id)));
+    }, TOAST_DURATION);
+    timersRef.current.add(timer);
+  }, [changes]);
+
+  // Drop pending removals on unmount
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => timers.forEach(timer => clearTimeout(timer));
+  }, []);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      style={{
+        position: 'absolute',
+        bottom: '20px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 1200,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        gap: '8px',
+        pointerEvents: 'none'
+      }}
+    >
+      {toasts.map(toast => (
+        <div key={toast.id} style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '10px',
+          padding: '10px 16px',
+          borderRadius: '8px',
+          background: 'rgba(0,0,0,0.85)',
+          borderLeft: `4px solid ${MaterialManager.getStatusCssColor(toast.status)}`,
+          color: 'white',
+          fontSize: '16px',
+          whiteSpace: 'nowrap'
+        }}>
+          🔔 {BoothChangeDetector.describe(toast)}
+        </div>
+      ))}
+    </div>
+  );
+}
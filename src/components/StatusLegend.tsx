@@ -0,0 +1,102 @@
+import React from 'react';
+import { Booth, BoothStatus, StatusFilter } from '../types/booth';
+import { MaterialManager } from '../utils/materialUtils';
+import { CalloutManager } from '../utils/calloutUtils';
+import { STATUS_ORDER, getDisplayStatus } from '../config/statusTheme';
+
+interface StatusLegendProps {
+  booths: Booth[];
+  filter: StatusFilter;
+  onFilterChange: (filter: StatusFilter) => void;
+}
+
+// Statuses always listed; other statuses only appear when booths use them
+const CORE_STATUSES: BoothStatus[] = ['available', 'reserved', 'sold'];
+
+export default function StatusLegend({ booths, filter, onFilterChange }: StatusLegendProps) {
+  const toggleStatus = (status: BoothStatus) => {
+    const statuses = filter.statuses.includes(status)
+      ? filter.statuses.filter(s => s !== status)
+      : [...filter.statuses, status];
+    onFilterChange({ ...filter, statuses });
+  };
+
+  return (
+    <div style={{
+      position: 'absolute',
+      bottom: '20px',
+      right: '20px',
+      zIndex: 1000,
+      background: 'rgba(0,0,0,0.8)',
+      padding: '12px 15px',
+      borderRadius: '8px',
+      color: 'white',
+      fontSize: '14px',
+      minWidth: '180px'
+    }}>
+      <div style={{ marginBottom: '8px', fontWeight: 'bold' }}>Booth status</div>
+
+      {STATUS_ORDER.map(status => {
+        const count = booths.filter(booth => getDisplayStatus(booth.status) === status).length;
+        const active = filter.statuses.includes(status);
+        if (count === 0 && !active && !CORE_STATUSES.includes(status)) return null;
+        return (
+          <button
+            key={status}
+            onClick={() => toggleStatus(status)}
+            aria-pressed={active}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              width: '100%',
+              margin: '3px 0',
+              padding: '5px 8px',
+              border: active ? '1px solid #66aaff' : '1px solid transparent',
+              borderRadius: '4px',
+              background: active ? 'rgba(102,170,255,0.2)' : 'transparent',
+              color: 'white',
+              cursor: 'pointer',
+              fontSize: '14px'
+            }}
+          >
+            <span style={{
+              width: '14px',
+              height: '14px',
+              borderRadius: '3px',
+              background: MaterialManager.getStatusCssColor(status)
+            }} />
+            <span style={{ flex: 1, textAlign: 'left' }}>{CalloutManager.getFormattedStatusText(status)}</span>
+            <span>{count}</span>
+          </button>
+        );
+      })}
+
+      {filter.statuses.length > 0 && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '8px', fontSize: '12px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={filter.mode === 'hide'}
+              onChange={(e) => onFilterChange({ ...filter, mode: e.target.checked ? 'hide' : 'dim' })}
+            />
+            Hide others
+          </label>
+          <button
+            onClick={() => onFilterChange({ ...filter, statuses: [] })}
+            style={{
+              marginLeft: 'auto',
+              border: 'none',
+              background: 'none',
+              color: '#66aaff',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+          >
+            Show all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import React from 'react';
+
+interface TourCaptionProps {
+  caption: string | null;
+  paused: boolean;
+}
+
+// Caption of the current attract-mode tour step
+export default function TourCaption({ caption, paused }: TourCaptionProps) {
+  if (!caption && !paused) return null;
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      style={{
+        position: 'absolute',
+        bottom: '120px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 900,
+        padding: '10px 24px',
+        borderRadius: '8px',
+        background: 'rgba(0,0,0,0.7)',
+        color: 'white',
+        fontSize: '24px',
+        fontWeight: 'bold',
+        pointerEvents: 'none',
+        whiteSpace: 'nowrap'
+      }}
+    >
+      {caption}{paused && <span style={{ fontSize: '16px', opacity: 0.7, marginLeft: caption ? '12px' : 0 }}>⏸ Paused</span>}
+    </div>
+  );
+}
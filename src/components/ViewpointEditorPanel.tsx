@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { CameraPosition, Viewpoint } from '../types/event';
+import { getViewpoints } from '../config/eventRegistry';
+import { ViewpointEditorManager } from '../utils/viewpointUtils';
+import { MeshDebugManager } from '../utils/meshDebugUtils';
+
+interface ViewpointEditorPanelProps {
+  areaId: string;
+  getCurrentCamera: () => CameraPosition | null; // Reads the live camera when a view is captured
+  onPreview: (viewpoint: Viewpoint) => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 8px',
+  border: '1px solid #888',
+  borderRadius: '4px',
+  background: 'transparent',
+  color: 'white',
+  fontSize: '12px',
+  cursor: 'pointer'
+};
+
+const inputStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  padding: '2px 4px',
+  border: '1px solid #555',
+  borderRadius: '4px',
+  background: 'rgba(255,255,255,0.1)',
+  color: 'white',
+  fontSize: '12px'
+};
+
+// Dev tool (?debug=viewpoints) to capture, name, reorder and preview an area's camera viewpoints and export them for events.json
+export default function ViewpointEditorPanel({ areaId, getCurrentCamera, onPreview }: ViewpointEditorPanelProps) {
+  // Edited lists per area, so switching areas keeps unsaved work
+  const [drafts, setDrafts] = useState<Record<string, Viewpoint[]>>({});
+  const [copied, setCopied] = useState<boolean>(false);
+
+  const viewpoints = drafts[areaId] || getViewpoints(areaId);
+  const isEdited = drafts[areaId] !== undefined;
+  const duplicateNames = ViewpointEditorManager.findDuplicateNames(viewpoints);
+
+  const update = (updated: Viewpoint[]) => {
+    setDrafts({ ...drafts, [areaId]: updated });
+    setCopied(false);
+  };
+
+  const capture = () => {
+    const currentCamera = getCurrentCamera();
+    if (!currentCamera) return;
+    const name = ViewpointEditorManager.getUnusedName(viewpoints);
+    update([...viewpoints, ViewpointEditorManager.createViewpoint(name, currentCamera)]);
+  };
+
+  const recapture = (index: number) => {
+    const currentCamera = getCurrentCamera();
+    if (!currentCamera) return;
+    update(viewpoints.map((viewpoint, i) =>
+      i === index ? ViewpointEditorManager.createViewpoint(viewpoint.name, currentCamera) : viewpoint
+    ));
+  };
+
+  const rename = (index: number, name: string) => {
+    update(viewpoints.map((viewpoint, i) => (i === index ? { ...viewpoint, name } : viewpoint)));
+  };
+
+  // Back to the viewpoints in events.json
+  const reset = () => {
+    const remaining = { ...drafts };
+    delete remaining[areaId];
+    setDrafts(remaining);
+  };
+
+  const copyExport = () => {
+    navigator.clipboard?.writeText(ViewpointEditorManager.createJsonExport(viewpoints))
+      .then(() => setCopied(true))
+      .catch((e: unknown) => console.warn('⚠️ Could not copy viewpoints to the clipboard:', e));
+  };
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '50%',
+      right: '20px',
+      transform: 'translateY(-50%)',
+      zIndex: 1000,
+      background: 'rgba(0,0,0,0.85)',
+      padding: '10px 15px',
+      borderRadius: '8px',
+      color: 'white',
+      fontSize: '13px',
+      width: '320px',
+      maxHeight: '60vh',
+      overflowY: 'auto'
+    }}>
+      <div style={{ fontWeight: 'bold', fontSize: '14px' }}>
+        Viewpoints – {areaId}{isEdited && <span style={{ color: '#ffb300', fontWeight: 'normal' }}> (unsaved)</span>}
+      </div>
+      <div style={{ fontSize: '12px', color: '#aaa', marginTop: '4px' }}>
+        The first viewpoint is the starting view; tour steps refer to viewpoints by name
+      </div>
+
+      <ol style={{ margin: '8px 0', paddingLeft: '20px' }}>
+        {viewpoints.map((viewpoint, index) => (
+          <li key={index} style={{ marginBottom: '6px' }}>
+            <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+              <input
+                aria-label={`Name of viewpoint ${index + 1}`}
+                value={viewpoint.name}
+                onChange={(e) => rename(index, e.target.value)}
+                style={{ ...inputStyle, borderColor: duplicateNames.includes(viewpoint.name) ? '#ff5252' : '#555' }}
+              />
+              <button style={buttonStyle} title="Preview" onClick={() => onPreview(viewpoint)}>👁</button>
+              <button style={buttonStyle} title="Move up" disabled={index === 0}
+                onClick={() => update(ViewpointEditorManager.moveViewpoint(viewpoints, index, -1))}>↑</button>
+              <button style={buttonStyle} title="Move down" disabled={index === viewpoints.length - 1}
+                onClick={() => update(ViewpointEditorManager.moveViewpoint(viewpoints, index, 1))}>↓</button>
+              <button style={buttonStyle} title="Replace with the current camera"
+                onClick={() => recapture(index)}>⟳</button>
+              <button style={buttonStyle} title="Delete"
+                onClick={() => update(viewpoints.filter((_, i) => i !== index))}>✕</button>
+            </div>
+          </li>
+        ))}
+      </ol>
+      {duplicateNames.length > 0 && (
+        <div style={{ color: '#ff5252', fontSize: '12px' }}>Duplicate names: {duplicateNames.join(', ')}</div>
+      )}
+
+      <div style={{ display: 'flex', gap: '6px', marginTop: '8px', flexWrap: 'wrap' }}>
+        <button style={buttonStyle} onClick={capture}>+ Capture current view</button>
+        <button
+          style={buttonStyle}
+          onClick={() => MeshDebugManager.downloadFile(
+            ViewpointEditorManager.createJsonExport(viewpoints), `viewpoints-${areaId}.json`, 'application/json'
+          )}
+        >
+          Export JSON
+        </button>
+        <button style={buttonStyle} onClick={copyExport}>{copied ? 'Copied' : 'Copy JSON'}</button>
+        {isEdited && <button style={buttonStyle} onClick={reset}>Reset</button>}
+      </div>
+      <div style={{ fontSize: '12px', color: '#aaa', marginTop: '6px' }}>
+        Paste the export as the area's "viewpoints" in src/config/events.json
+      </div>
+    </div>
+  );
+}
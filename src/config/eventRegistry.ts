@@ -0,0 +1,197 @@
+import { Booth } from '../types/booth';
+import { AreaConfig, CalloutSizing, EventConfig, EventManifest, TourScript, TourStep, Viewpoint } from '../types/event';
+import eventsManifest from './events.json';
+
+/**
+ * Event and area registry
+ * Single source of truth for events, their data sources, areas, models,
+ * camera presets and callout sizing. Adding an event is a change to events.json.
+ */
+
+const manifest = eventsManifest as EventManifest;
+
+// Callout sizing used for areas that don't override it
+const DEFAULT_CALLOUT_SIZING: CalloutSizing = {
+  infoHeightOffset: 1.0,
+  nameHeightOffset: 0.41,
+  infoScale: 1,
+  nameScale: 1
+};
+
+// Inactivity before a tour starts, unless the manifest or the area's tour sets another
+const DEFAULT_TOUR_IDLE_TIMEOUT = 240000;
+
+// Tour of areas without a scripted one: a slow orbit of the starting view
+const DEFAULT_TOUR_ORBIT_DURATION = 30000;
+
+// Index areas by ID once at startup
+const areaIndex = new Map<string, { area: AreaConfig; event: EventConfig }>();
+manifest.events.forEach(event => {
+  event.areas.forEach(area => {
+    if (areaIndex.has(area.id)) {
+      console.warn(`⚠️ Area ${area.id} is defined more than once in events.json, using the first definition`);
+      return;
+    }
+    areaIndex.set(area.id, { area, event });
+  });
+});
+
+export const DEFAULT_AREA_ID = manifest.defaultAreaId;
+
+/**
+ * All configured events, in manifest order
+ */
+export function getEvents(): EventConfig[] {
+  return manifest.events;
+}
+
+/**
+ * Get the configuration of an area, or null for unknown areas
+ */
+export function getAreaConfig(areaId: string): AreaConfig | null {
+  return areaIndex.get(areaId)?.area || null;
+}
+
+/**
+ * Get the event an area belongs to. Unknown areas fall back to the default area's event.
+ */
+export function getEventForArea(areaId: string): EventConfig {
+  const entry = areaIndex.get(areaId) || areaIndex.get(DEFAULT_AREA_ID);
+  return entry ? entry.event : manifest.events[0];
+}
+
+/**
+ * Check whether an area ID is configured
+ */
+export function isKnownArea(areaId: string): boolean {
+  return areaIndex.has(areaId);
+}
+
+/**
+ * Get display name for an area
+ */
+export function getAreaName(areaId: string): string {
+  return getAreaConfig(areaId)?.name || 'Exhibition Area';
+}
+
+// Use process.env.PUBLIC_URL to handle both development and production paths
+const toPublicUrl = (path: string): string => {
+  const basePath = process.env.PUBLIC_URL || '';
+  return `${basePath}/${path.replace(/^\//, '')}`;
+};
+
+/**
+ * Get the model URL for an area
+ */
+export function getModelPath(areaId: string): string {
+  return toPublicUrl(getAreaConfig(areaId)?.modelPath || `models/${areaId}.glb`);
+}
+
+/**
+ * Get the URL of the lower-detail model for an area, or null when it has none
+ */
+export function getFallbackModelPath(areaId: string): string | null {
+  const fallbackModelPath = getAreaConfig(areaId)?.fallbackModelPath;
+  return fallbackModelPath ? toPublicUrl(fallbackModelPath) : null;
+}
+
+/**
+ * Get the level-of-detail variants of an area model, with resolved URLs
+ */
+export function getModelLods(areaId: string): { url: string; distance: number }[] {
+  return (getAreaConfig(areaId)?.lods || []).map(lod => ({ url: toPublicUrl(lod.modelPath), distance: lod.distance }));
+}
+
+/**
+ * Get the explicit booth-to-mesh mapping of an area model (empty when it relies on mesh names)
+ */
+export function getMeshMapping(areaId: string): Record<string, string> {
+  return getAreaConfig(areaId)?.meshMapping || {};
+}
+
+/**
+ * Get the extra model scale for an area
+ */
+export function getModelScale(areaId: string): number {
+  return getAreaConfig(areaId)?.modelScale ?? 1;
+}
+
+/**
+ * Get callout sizing for an area, merged with defaults
+ */
+export function getCalloutSizing(areaId: string): CalloutSizing {
+  return { ...DEFAULT_CALLOUT_SIZING, ...getAreaConfig(areaId)?.callouts };
+}
+
+/**
+ * Get the named camera views of an area, starting view first
+ */
+export function getViewpoints(areaId: string): Viewpoint[] {
+  return getAreaConfig(areaId)?.viewpoints || [];
+}
+
+/**
+ * Get the attract-mode tour of an area; areas without a scripted tour orbit their starting view.
+ * Steps naming a viewpoint get its camera position; steps naming an unknown viewpoint are skipped.
+ */
+export function getTourScript(areaId: string): TourScript | null {
+  const area = getAreaConfig(areaId);
+  if (!area) return null;
+
+  const steps: TourStep[] = [];
+  (area.tour?.steps || []).forEach(step => {
+    if ('camera' in step) {
+      steps.push(step);
+      return;
+    }
+    const { viewpoint: viewpointName, ...rest } = step;
+    const viewpoint = area.viewpoints.find(candidate => candidate.name === viewpointName);
+    if (viewpoint) {
+      steps.push({ ...rest, camera: viewpoint });
+    } else {
+      console.warn(`⚠️ Tour of ${areaId} uses unknown viewpoint "${viewpointName}", skipping the step`);
+    }
+  });
+  if (area.tour && steps.length > 0) return { ...area.tour, steps };
+
+  const start = area.viewpoints[0];
+  if (!start) return null;
+  return { steps: [{ camera: start, motion: { type: 'orbit', duration: DEFAULT_TOUR_ORBIT_DURATION } }] };
+}
+
+/**
+ * Get the milliseconds without interaction before an area's tour starts (0 = never on its own)
+ */
+export function getTourIdleTimeout(areaId: string): number {
+  return getAreaConfig(areaId)?.tour?.idleTimeout ?? manifest.tourIdleTimeout ?? DEFAULT_TOUR_IDLE_TIMEOUT;
+}
+
+/**
+ * Check whether a booth ID starts with one of the given prefixes (empty list matches everything)
+ */
+export function matchesBoothPrefixes(boothId: string, prefixes: string[] | undefined): boolean {
+  return !prefixes || prefixes.length === 0 || prefixes.some(prefix => boothId.startsWith(prefix));
+}
+
+/**
+ * Keep only the booths that belong to an event
+ */
+export function filterBoothsForEvent(event: EventConfig, booths: Booth[]): Booth[] {
+  return booths.filter(booth => matchesBoothPrefixes(booth.id, event.boothIdPrefixes));
+}
+
+/**
+ * Find the area that should show a booth: the current area when its model contains
+ * the booth, otherwise the first area of the same event whose prefixes match
+ */
+export function findAreaForBooth(boothId: string, currentAreaId: string): string {
+  const currentArea = getAreaConfig(currentAreaId);
+  if (!currentArea || matchesBoothPrefixes(boothId, currentArea.boothIdPrefixes)) {
+    return currentAreaId;
+  }
+
+  const matchingArea = getEventForArea(currentAreaId).areas.find(area =>
+    area.boothIdPrefixes.length > 0 && matchesBoothPrefixes(boothId, area.boothIdPrefixes)
+  );
+  return matchingArea ? matchingArea.id : currentAreaId;
+}
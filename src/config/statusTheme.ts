@@ -0,0 +1,130 @@
+import { BoothStatus, StatusStyle } from '../types/booth';
+
+/**
+ * Booth status theme
+ * Single source of truth for status labels, sheet spellings and colors used by
+ * mesh coloring, hover glow, callouts, legend and statistics.
+ */
+
+// Callout gradient used by the original sold/reserved/available callouts
+const DEFAULT_CALLOUT = {
+  gradient: ['rgba(43, 179, 43, 0.95)', 'rgba(34, 139, 34, 0.95)'],
+  shadow: 'rgba(43, 179, 43, 0.4)'
+};
+
+export const STATUS_THEME: Record<BoothStatus, StatusStyle> = {
+  available: {
+    label: 'Available',
+    color: 0x0430A9, // Blue
+    glowColor: 0x0430A9,
+    callout: DEFAULT_CALLOUT,
+    forSale: true,
+    celebrate: false,
+    aliases: ['free', 'open']
+  },
+  reserved: {
+    label: 'Reserved',
+    color: 0x659C3E, // Green - same as sold
+    glowColor: 0x659C3E,
+    callout: DEFAULT_CALLOUT,
+    forSale: false,
+    celebrate: true,
+    aliases: []
+  },
+  sold: {
+    label: 'Sold',
+    color: 0x659C3E, // Green
+    glowColor: 0x659C3E,
+    callout: DEFAULT_CALLOUT,
+    forSale: false,
+    celebrate: true,
+    aliases: ['booked']
+  },
+  'pending-payment': {
+    label: 'Pending payment',
+    color: 0xD98E04, // Amber
+    glowColor: 0xF2A516,
+    callout: { gradient: ['rgba(230, 152, 20, 0.95)', 'rgba(190, 120, 10, 0.95)'], shadow: 'rgba(230, 152, 20, 0.4)' },
+    forSale: false,
+    celebrate: false,
+    aliases: ['payment-pending', 'awaiting-payment', 'invoiced']
+  },
+  'on-hold': {
+    label: 'On hold',
+    color: 0x8A5FB5, // Purple
+    glowColor: 0xA77BD1,
+    callout: { gradient: ['rgba(150, 105, 195, 0.95)', 'rgba(115, 75, 160, 0.95)'], shadow: 'rgba(150, 105, 195, 0.4)' },
+    forSale: false,
+    celebrate: false,
+    aliases: ['hold', 'onhold']
+  },
+  sponsor: {
+    label: 'Sponsor',
+    color: 0xC9A227, // Gold
+    glowColor: 0xE8C547,
+    callout: { gradient: ['rgba(210, 170, 45, 0.95)', 'rgba(170, 135, 25, 0.95)'], shadow: 'rgba(210, 170, 45, 0.4)' },
+    forSale: false,
+    celebrate: false,
+    aliases: ['sponsored']
+  },
+  blocked: {
+    label: 'Blocked',
+    color: 0x6E6E6E, // Gray
+    glowColor: 0x8C8C8C,
+    callout: { gradient: ['rgba(120, 120, 120, 0.95)', 'rgba(85, 85, 85, 0.95)'], shadow: 'rgba(120, 120, 120, 0.4)' },
+    forSale: false,
+    celebrate: false,
+    aliases: ['unavailable', 'not-for-sale']
+  },
+  nil: {
+    label: 'No data',
+    color: 0x0430A9, // Blue - booths without a status are shown as available
+    glowColor: 0x0430A9,
+    callout: DEFAULT_CALLOUT,
+    forSale: true,
+    celebrate: false,
+    aliases: []
+  }
+};
+
+// Display order for legends and statistics (booths without data are listed as available)
+export const STATUS_ORDER: BoothStatus[] = ['available', 'pending-payment', 'on-hold', 'reserved', 'sponsor', 'sold', 'blocked'];
+
+// "On hold", "on_hold" and "ON-HOLD" all become "on-hold"
+const normalizeStatusKey = (value: string): string =>
+  value.trim().toLowerCase().replace(/[\s_-]+/g, '-');
+
+const statusByKey = new Map<string, BoothStatus>();
+(Object.keys(STATUS_THEME) as BoothStatus[]).forEach(status => {
+  if (status === 'nil') return;
+  statusByKey.set(status, status);
+  STATUS_THEME[status].aliases.forEach(alias => statusByKey.set(normalizeStatusKey(alias), status));
+});
+
+/**
+ * Map a status as written in the sheet to a known status, or null when it is not recognized
+ */
+export function parseStatus(value: string): BoothStatus | null {
+  return statusByKey.get(normalizeStatusKey(value)) || null;
+}
+
+/**
+ * Get the theme of a status; unknown statuses use the available theme
+ */
+export function getStatusStyle(status: string): StatusStyle {
+  return STATUS_THEME[status as BoothStatus] || STATUS_THEME.available;
+}
+
+/**
+ * Status a booth is listed and filtered as: booths without data look available, so they count as available
+ */
+export function getDisplayStatus(status: BoothStatus): BoothStatus {
+  return status === 'nil' ? 'available' : status;
+}
+
+/**
+ * Convert a theme color to a CSS color string
+ */
+export function toCssColor(color: number): string {
+  return `#${('000000' + color.toString(16)).slice(-6)}`;
+}
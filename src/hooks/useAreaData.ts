@@ -1,147 +1,226 @@
 import { useState, useEffect, useRef } from 'react';
-import { AreaData } from '../types/booth';
-import { fetchBoothInfoFromSheets } from '../services/googleSheets';
+import { AreaData, Booth, BoothStatusChange } from '../types/booth';
+import { DataQualityReport } from '../types/dataQuality';
+import { BoothSheetResult, fetchBoothSheet, getLiveUpdateChannelForArea, processBoothRows } from '../services/googleSheets';
+import { applyLiveUpdate } from '../services/liveUpdates';
+import { BoothDataError, SheetRow } from '../services/boothDataSources';
+import { saveCachedBoothRows } from '../services/boothCache';
+import { filterBoothsForEvent, getAreaName, getEventForArea } from '../config/eventRegistry';
+import { BoothChangeDetector } from '../utils/changeUtils';
+
+// Status changes kept for consumers that pick up new ones by ID
+const MAX_RECENT_CHANGES = 20;
 
 export function useAreaData(areaId: string, hotReload: boolean = true) {
   const [data, setData] = useState<AreaData | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [error, setError] = useState<BoothDataError | null>(null); // Last load failure; the previous data stays visible
+  const [report, setReport] = useState<DataQualityReport | null>(null);
+  const [changes, setChanges] = useState<BoothStatusChange[]>([]);
+  const [dataAsOf, setDataAsOf] = useState<number | null>(null); // Set while offline: when the shown data was fetched
+  const [reloading, setReloading] = useState<boolean>(false); // A load from the data source is in flight
+  const [baselineBooths, setBaselineBooths] = useState<Booth[] | null>(null); // Booths of the event as first loaded
   const lastDataHashRef = useRef<string | null>(null);
+  const lastReportHashRef = useRef<string | null>(null);
+  const rowsRef = useRef<SheetRow[]>([]); // Last known sheet rows, live updates are applied to these
+  const hasRowsRef = useRef<boolean>(false); // Whether rowsRef holds the current event's rows yet
+  const areaIdRef = useRef<string>(areaId); // Live updates outlive area switches within an event
+  const lastFetchedAtRef = useRef<number | null>(null); // When fresh data last arrived from the source
+  const activeLoadRef = useRef<{ eventId: string; id: number } | null>(null); // Load whose result is still wanted
+  const loadCountRef = useRef<number>(0);
+  const previousSnapshotRef = useRef<{ eventId: string; booths: Booth[] } | null>(null); // For status change detection
+  const baselineBoothsRef = useRef<Map<string, Booth[]>>(new Map()); // First booths of each event since page load
+  areaIdRef.current = areaId;
+
+  // Publish parsed sheet data for the current area, skipping unchanged data
+  const publishBoothSheet = ({ rows, booths: boothMap, report: qualityReport, cachedAt, error: sourceError }: BoothSheetResult) => {
+    const areaId = areaIdRef.current;
+    const event = getEventForArea(areaId);
+    rowsRef.current = rows;
+    hasRowsRef.current = true;
+
+    // Cached data means the source failed; fresh data clears the offline and error state
+    setError(sourceError);
+    if (cachedAt !== null) {
+      setDataAsOf(cachedAt);
+    } else {
+      lastFetchedAtRef.current = Date.now();
+      setDataAsOf(null);
+    }
+
+    // Only publish the data-quality report when its issues change
+    if (qualityReport) {
+      const reportHash = JSON.stringify(qualityReport.issues);
+      if (reportHash !== lastReportHashRef.current) {
+        lastReportHashRef.current = reportHash;
+        setReport(qualityReport);
+      }
+    }
+    
+    // Every area of an event shows ALL booths of that event (e.g. B-, C-, E- for Energy)
+    const filteredBooths = filterBoothsForEvent(event, Array.from(boothMap.values()));
+    const areaName = getAreaName(areaId);
+    
+    console.log(`🏢 Found ${filteredBooths.length} booths for area ${areaName} (event ${event.name})`);
+
+    // The first data of an event is the baseline of the "since load" trends
+    if (!baselineBoothsRef.current.has(event.id)) {
+      baselineBoothsRef.current.set(event.id, filteredBooths);
+    }
+    setBaselineBooths(baselineBoothsRef.current.get(event.id)!);
+    
+    // Create area data structure
+    const areaData: AreaData = {
+      areaId,
+      areaName,
+      booths: filteredBooths
+    };
+    
+    // Create a hash of the data to detect actual changes
+    const dataHash = JSON.stringify({
+      areaId: areaData.areaId,
+      areaName: areaData.areaName,
+      booths: areaData.booths
+    });
+    
+    // Only update state if data has actually changed
+    if (dataHash !== lastDataHashRef.current) {
+      console.log(`🔄 Area data changed, updating state`);
+      lastDataHashRef.current = dataHash;
+      setData(areaData);
 
-  // Determine event type to avoid reloading data for individual halls
-  const getEventType = (areaId: string): string => {
-    if (areaId === 'MainExhibitionHall') {
-      return 'techdays'; // OTD Tech Days 2026
+      // Compare with the previous snapshot of the same event to report status changes
+      const previousSnapshot = previousSnapshotRef.current;
+      if (previousSnapshot && previousSnapshot.eventId === event.id) {
+        const statusChanges = BoothChangeDetector.diff(previousSnapshot.booths, filteredBooths);
+        if (statusChanges.length > 0) {
+          statusChanges.forEach(change => console.log(`🔔 ${BoothChangeDetector.describe(change)}`));
+          setChanges(recent => recent.concat(statusChanges).slice(-MAX_RECENT_CHANGES));
+        }
+      }
+      previousSnapshotRef.current = { eventId: event.id, booths: filteredBooths };
+    } else {
+      console.log(`⏭️ Area data unchanged, skipping state update`);
     }
-    // All energy areas use the same data
-    return 'energy'; // OTD Energy 2027
   };
 
   const loadAreaDataFromSheets = async () => {
+    const areaId = areaIdRef.current;
+    const event = getEventForArea(areaId);
+
+    // Retries while the event is loading (with its backoff) would only start parallel loads
+    if (activeLoadRef.current?.eventId === event.id) {
+      console.log(`⏳ Booth data for ${event.name} is already loading`);
+      return;
+    }
+    const load = { eventId: event.id, id: ++loadCountRef.current };
+    activeLoadRef.current = load;
+    setReloading(true);
+
     try {
-      setError(null);
-//      setLoading(true);
-      
-      const eventType = getEventType(areaId);
-      console.log(`📈 Loading booth data for event: ${eventType} (requested area: ${areaId})`);
-      
-      // Use areaId for sheet selection, but eventType for data caching
-      const boothMap = await fetchBoothInfoFromSheets(areaId);
-      
-      // For Energy 2027 areas, show ALL energy booths on the combined model
-      // For MainExhibitionHall, show only its booths
-      const isEnergyArea = ['Hall_B_2', 'Hall_C', 'Hall_E_3', 'all_in_one'].includes(areaId);
-      
-      const allBooths = Array.from(boothMap.values());
-      let filteredBooths;
+      console.log(`📈 Loading booth data for event: ${event.name} (requested area: ${areaId})`);
       
-      if (isEnergyArea) {
-        // For any energy area, show ALL energy booths (B-, C-, E-)
-        filteredBooths = allBooths.filter(booth => 
-          booth.id.startsWith('B-') || 
-          booth.id.startsWith('C-') || 
-          booth.id.startsWith('E-')
-        );
-        console.log(`🌍 Energy area selected: showing combined booth data from all energy halls`);
-      } else {
-        // For MainExhibitionHall, show all booths from that event
-        filteredBooths = allBooths;
-        console.log(`🏗️ MainExhibitionHall selected: showing all booths from that event`);
-      }
-      
-      // Determine area name based on areaId
-      let areaName = 'Exhibition Area';
-      switch (areaId) {
-        case 'all_in_one':
-          areaName = 'Exhibition OTD Energy';
-          break;
-        case 'Hall_C':
-          areaName = 'Exhibition Hall C';
-          break;
-        case 'Hall_B_2':
-          areaName = 'Exhibition Hall B';
-          break;
-        case 'Hall_E_3':
-          areaName = 'Exhibition Hall E';
-          break;
-        case 'MainExhibitionHall':
-          areaName = 'Main Exhibition Hall';
-          break;
-      }
-      
-      console.log(`🏢 Found ${filteredBooths.length} booths for area ${areaName}`);
-      if (isEnergyArea) {
-        console.log(`  → Combined data from Hall B, C, and E`);
-      }
-      
-      // Create area data structure
-      const areaData: AreaData = {
-        areaId,
-        areaName,
-        booths: filteredBooths
-      };
-      
-      // Create a hash of the data to detect actual changes
-      const dataHash = JSON.stringify({
-        areaId: areaData.areaId,
-        areaName: areaData.areaName,
-        booths: areaData.booths.map(booth => ({
-          id: booth.id,
-          name: booth.name,
-          status: booth.status,
-          color: booth.color,
-          width: booth.width,
-          height: booth.height,
-          area: booth.area
-        }))
-      });
-      
-      // Only update state if data has actually changed
-      if (dataHash !== lastDataHashRef.current) {
-        console.log(`🔄 Area data changed, updating state`);
-        lastDataHashRef.current = dataHash;
-        setData(areaData);
-      } else {
-        console.log(`⏭️ Area data unchanged, skipping state update`);
+      // Use areaId for sheet selection, but the event for data caching
+      const result = await fetchBoothSheet(areaId);
+      if (activeLoadRef.current !== load) {
+        console.log(`⏭️ Dropping booth data of ${event.name} that arrived after switching events`);
+        return;
       }
+      publishBoothSheet(result);
       
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-      setError(errorMessage);
+      if (activeLoadRef.current !== load) return;
+      // Keep showing the previous data of this event; the live update channel keeps retrying
+      setError(BoothDataError.from(err));
+      markOffline();
       console.error(`Error loading area data for ${areaId}:`, err);
     } finally {
+      if (activeLoadRef.current === load) {
+        activeLoadRef.current = null;
+        setReloading(false);
+      }
       setLoading(false);
     }
   };
 
 
-  // Get current event type to track changes
-  const currentEventType = getEventType(areaId);
+  // Keep showing the last data, but flag it as stale from when it was fetched
+  const markOffline = () => {
+    setDataAsOf(current => current ?? lastFetchedAtRef.current);
+  };
+
+  const handleChannelError = (channelError: BoothDataError) => {
+    setError(channelError);
+    markOffline();
+  };
+
+  // Get current event to track changes
+  const currentEventId = getEventForArea(areaId).id;
+
+  // Follow the browser's connectivity; reload as soon as the network is back
+  useEffect(() => {
+    const handleOffline = () => {
+      console.warn('📴 Browser went offline');
+      markOffline();
+    };
+    const handleOnline = () => {
+      console.log('📶 Browser is back online, reloading booth data');
+      loadAreaDataFromSheets();
+    };
+
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('online', handleOnline);
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentEventId]);
 
-  // Load area data on mount and when EVENT TYPE changes (not individual areas)
+  // Load area data on mount and when the EVENT changes (not individual areas)
   useEffect(() => {
     if (!areaId) return;
 
-    console.log(`🔄 Event type: ${currentEventType} for area: ${areaId}`);
+    console.log(`🔄 Event: ${currentEventId} for area: ${areaId}`);
+
+    // Nothing of the previous event carries over: its rows would be patched and cached as this event's
+    activeLoadRef.current = null;
+    rowsRef.current = [];
+    hasRowsRef.current = false;
+    previousSnapshotRef.current = null;
+    lastDataHashRef.current = null;
+    lastReportHashRef.current = null;
+    lastFetchedAtRef.current = null;
+    setData(null);
+    setError(null);
+    setDataAsOf(null);
 
     // Load initial data
     loadAreaDataFromSheets();
 
-    // Set up polling for Google Sheets data (every 10 seconds in development)
-    if (hotReload && process.env.NODE_ENV === 'development') {
-      intervalRef.current = setInterval(async () => {
-        await loadAreaDataFromSheets();
-      }, 5000);
-    }
+    if (!hotReload) return;
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
+    // Keep the data current through the event's live update channel (push, or polling as fallback)
+    const channel = getLiveUpdateChannelForArea(areaId);
+    console.log(`📡 Subscribing to ${channel.description}`);
+    const disconnect = channel.connect({
+      onMessage: message => {
+        // Changed rows can only be merged into the full rows of this event
+        if (message.type === 'update' && !hasRowsRef.current) {
+          console.log(`⏭️ Ignoring live update for ${currentEventId} until its booth data has loaded`);
+          return;
+        }
+        const rows = applyLiveUpdate(rowsRef.current, message);
+        saveCachedBoothRows(currentEventId, rows, channel.description);
+        publishBoothSheet(processBoothRows(rows, channel.description));
+      },
+      onStatusChange: status => console.log(`📡 Live updates for ${currentEventId}: ${status}`),
+      onError: handleChannelError
+    });
+
+    return () => disconnect();
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentEventType, hotReload]); // Only reload when event type changes
+  }, [currentEventId, hotReload]); // Only reload when the event changes
 
-  return { data, loading, error };
-}
\ No newline at end of file
+  return { data, loading, reloading, error, report, changes, dataAsOf, baselineBooths, retry: loadAreaDataFromSheets };
+}
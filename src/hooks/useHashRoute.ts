@@ -0,0 +1,100 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CameraPosition } from '../types/event';
+import { DEFAULT_AREA_ID, isKnownArea } from '../config/eventRegistry';
+
+/**
+ * Hash-based route (works on GitHub Pages without server rewrites):
+ *   #/<areaId>[/<boothId>][?cam=x,y,z,targetX,targetY,targetZ]
+ */
+export interface AppRoute {
+  areaId: string;
+  boothId: string | null;
+  camera: CameraPosition | null;
+}
+
+const CAMERA_PRECISION = 3; // Decimals kept for camera coordinates in URLs
+
+const parseCamera = (value: string | null): CameraPosition | null => {
+  if (!value) return null;
+
+  const numbers = value.split(',').map(part => parseFloat(part));
+  if (numbers.length !== 6 || numbers.some(isNaN)) {
+    console.warn(`⚠️ Ignoring malformed camera in URL: ${value}`);
+    return null;
+  }
+
+  const [x, y, z, targetX, targetY, targetZ] = numbers;
+  return { x, y, z, targetX, targetY, targetZ };
+};
+
+const formatCamera = (camera: CameraPosition): string =>
+  [camera.x, camera.y, camera.z, camera.targetX, camera.targetY, camera.targetZ]
+    .map(value => Number(value.toFixed(CAMERA_PRECISION)))
+    .join(',');
+
+/**
+ * Parse a location hash into a route; unknown areas fall back to the default area
+ */
+export function parseRoute(hash: string): AppRoute {
+  const [path, query = ''] = hash.replace(/^#\/?/, '').split('?');
+  const [areaSegment, boothSegment] = path.split('/').filter(Boolean).map(decodeURIComponent);
+
+  const areaId = areaSegment && isKnownArea(areaSegment) ? areaSegment : DEFAULT_AREA_ID;
+  if (areaSegment && areaId !== areaSegment) {
+    console.warn(`⚠️ Unknown area "${areaSegment}" in URL, showing ${areaId}`);
+  }
+
+  return {
+    areaId,
+    boothId: boothSegment || null,
+    camera: parseCamera(new URLSearchParams(query).get('cam'))
+  };
+}
+
+/**
+ * Format a route as a location hash
+ */
+export function formatRoute(route: AppRoute): string {
+  let hash = `#/${encodeURIComponent(route.areaId)}`;
+  if (route.boothId) {
+    hash += `/${encodeURIComponent(route.boothId)}`;
+  }
+  if (route.camera) {
+    hash += `?cam=${formatCamera(route.camera)}`;
+  }
+  return hash;
+}
+
+/**
+ * Keep the app route in sync with the location hash.
+ * navigate() pushes a history entry (back/forward step through them);
+ * pass { replace: true } to update the URL without adding one.
+ */
+export function useHashRoute() {
+  const [route, setRoute] = useState<AppRoute>(() => parseRoute(window.location.hash));
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      console.log(`🔗 Route changed: ${window.location.hash}`);
+      setRoute(parseRoute(window.location.hash));
+    };
+
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const navigate = useCallback((nextRoute: AppRoute, options: { replace?: boolean } = {}) => {
+    const hash = formatRoute(nextRoute);
+    if (hash === window.location.hash) return;
+
+    if (options.replace) {
+      // replaceState does not fire hashchange, so update the route ourselves
+      window.history.replaceState(null, '', hash);
+      setRoute(parseRoute(hash));
+    } else {
+      window.location.hash = hash;
+    }
+  }, []);
+
+  return { route, navigate };
+}
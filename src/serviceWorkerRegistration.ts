@@ -0,0 +1,36 @@
+import { getEvents, getFallbackModelPath, getModelLods, getModelPath } from './config/eventRegistry';
+
+// Kiosks opt in with ?precache=models to also store every level of detail up front
+const PRECACHE_LODS = new URLSearchParams(window.location.search).get('precache') === 'models';
+
+/**
+ * Register public/sw.js and ask it to precache the models of all configured areas,
+ * so the venue can lose its connection without losing the 3D halls. Level-of-detail variants
+ * are cached as they are viewed unless ?precache=models asks for them up front.
+ * Only in production builds: the dev server's hot reloading doesn't mix with caching.
+ */
+export function registerServiceWorker(): void {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      await navigator.serviceWorker.register(`${process.env.PUBLIC_URL}/sw.js`);
+      const registration = await navigator.serviceWorker.ready;
+
+      const modelUrls = Array.from(new Set(
+        getEvents().flatMap(event => event.areas.flatMap(area =>
+          [
+            getModelPath(area.id),
+            getFallbackModelPath(area.id),
+            ...(PRECACHE_LODS ? getModelLods(area.id).map(lod => lod.url) : [])
+          ].filter((url): url is string => url !== null)
+        ))
+      ));
+      if (modelUrls.length === 0) return;
+      registration.active?.postMessage({ type: 'PRECACHE_MODELS', urls: modelUrls });
+      console.log(`📦 Service worker ready, precaching ${modelUrls.length} models`);
+    } catch (error) {
+      console.warn('⚠️ Service worker registration failed:', error);
+    }
+  });
+}
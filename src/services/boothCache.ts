@@ -0,0 +1,78 @@
+import { SheetRow } from './boothDataSources';
+
+/**
+ * Last-known-good booth rows per event, persisted in IndexedDB so the app can
+ * show real availability when the venue Wi-Fi drops.
+ */
+
+export interface CachedBoothRows {
+  eventId: string;
+  rows: SheetRow[];
+  savedAt: number; // Timestamp (ms) when the rows were fetched
+  source: string; // Data source description
+}
+
+const DB_NAME = 'exhibition-booth-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'booth-rows';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'eventId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open (e.g. private browsing)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const isAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+/**
+ * Persist the rows of an event as its last known good data
+ */
+export async function saveCachedBoothRows(eventId: string, rows: SheetRow[], source: string): Promise<void> {
+  if (!isAvailable()) return;
+
+  try {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const entry: CachedBoothRows = { eventId, rows, savedAt: Date.now(), source };
+      transaction.objectStore(STORE_NAME).put(entry);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.warn(`⚠️ Could not cache booth data for ${eventId}:`, error);
+  }
+}
+
+/**
+ * Load the last known good rows of an event, or null when nothing was cached
+ */
+export async function loadCachedBoothRows(eventId: string): Promise<CachedBoothRows | null> {
+  if (!isAvailable()) return null;
+
+  try {
+    const db = await openDatabase();
+    return await new Promise<CachedBoothRows | null>((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(eventId);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.warn(`⚠️ Could not read cached booth data for ${eventId}:`, error);
+    return null;
+  }
+}
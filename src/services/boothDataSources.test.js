@@ -0,0 +1,76 @@
+import { parseCsv, parseDataSourceSpec, SheetJsonDataSource, StaticJsonDataSource } from './boothDataSources';
+
+const respondWith = (response) => {
+  global.fetch = jest.fn(() => response);
+};
+
+const fetchError = async () => {
+  try {
+    await new SheetJsonDataSource('https://sheet.example.com').fetchRows();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected fetchRows to fail');
+};
+
+test('reports data source failures as typed errors', async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+
+  respondWith(Promise.reject(new TypeError('Failed to fetch')));
+  expect(await fetchError()).toMatchObject({ kind: 'network', retryable: true });
+
+  respondWith(Promise.resolve({ ok: false, status: 503, statusText: 'Service Unavailable' }));
+  expect(await fetchError()).toMatchObject({ kind: 'http', status: 503, retryable: true });
+
+  respondWith(Promise.resolve({ ok: false, status: 404, statusText: 'Not Found' }));
+  expect(await fetchError()).toMatchObject({ kind: 'http', status: 404, retryable: false });
+
+  respondWith(Promise.resolve({ ok: true, status: 200, json: () => Promise.reject(new SyntaxError('Unexpected token <')) }));
+  expect(await fetchError()).toMatchObject({ kind: 'parse', retryable: false });
+
+  respondWith(Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({ error: 'Sheet not found' }) }));
+  expect(await fetchError()).toMatchObject({ kind: 'schema', retryable: false });
+
+  console.log.mockRestore();
+});
+
+test('parses quoted fields, escaped quotes and line endings in CSV', () => {
+  const csv = 'ID,Name,Status\r\n'
+    + 'B-1,"Acme, Inc.",sold\r\n'
+    + 'B-2,"Line one\nline two",\n'
+    + ',,\r\n'
+    + 'B-3,"The ""Best"" Booth",available';
+
+  expect(parseCsv(csv)).toEqual([
+    { id: 'B-1', name: 'Acme, Inc.', status: 'sold' },
+    { id: 'B-2', name: 'Line one\nline two' },
+    { id: 'B-3', name: 'The "Best" Booth', status: 'available' }
+  ]);
+});
+
+test('parses data source specs', () => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  expect(parseDataSourceSpec('csv:https://docs.google.com/export?format=csv'))
+    .toEqual({ type: 'csv', url: 'https://docs.google.com/export?format=csv' });
+  expect(parseDataSourceSpec('json:data/archived/area1.json')).toEqual({ type: 'json', path: 'data/archived/area1.json' });
+  expect(parseDataSourceSpec('sheetjson:https://sheet.example.com')).toEqual({ type: 'sheetjson', url: 'https://sheet.example.com' });
+  expect(parseDataSourceSpec('xml:data/booths.xml')).toBeNull();
+  expect(parseDataSourceSpec('json:')).toBeNull();
+  expect(parseDataSourceSpec('data/archived/area1.json')).toBeNull();
+
+  console.warn.mockRestore();
+});
+
+test('reads static JSON booth rows as an array or under "booths"', async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  const rows = [{ id: 'booth1', status: 'sold' }];
+
+  respondWith(Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve(rows) }));
+  expect(await new StaticJsonDataSource('data/booths.json').fetchRows()).toEqual(rows);
+
+  respondWith(Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({ areaName: 'Main Exhibition Hall', booths: rows }) }));
+  expect(await new StaticJsonDataSource('data/archived/area1.json').fetchRows()).toEqual(rows);
+
+  console.log.mockRestore();
+});
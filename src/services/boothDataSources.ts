@@ -0,0 +1,289 @@
+/**
+ * Booth data sources
+ * Interchangeable adapters that deliver raw booth rows (one object per sheet row)
+ * from sheetjson.com, a published-CSV Google Sheet, a static JSON file or memory.
+ */
+
+// A raw row as it comes from the sheet, keyed by (lower-cased) column header
+export type SheetRow = Record<string, any>;
+
+export interface BoothDataSource {
+  /** Human readable description used in logs */
+  readonly description: string;
+  /** Fetch all rows from the source */
+  fetchRows(): Promise<SheetRow[]>;
+}
+
+export type DataSourceConfig =
+  | { type: 'sheetjson'; url: string }
+  | { type: 'csv'; url: string }
+  | { type: 'json'; path: string }
+  | { type: 'memory'; rows: SheetRow[] };
+
+export type BoothDataErrorKind = 'network' | 'http' | 'parse' | 'schema';
+
+/**
+ * Typed failure of a data source: unreachable (network), error response (http),
+ * unreadable body (parse) or rows in an unexpected shape (schema)
+ */
+export class BoothDataError extends Error {
+  constructor(
+    readonly kind: BoothDataErrorKind,
+    message: string,
+    readonly status?: number // HTTP status for 'http' errors
+  ) {
+    super(message);
+    this.name = 'BoothDataError';
+  }
+
+  /** Whether trying again may help; a malformed sheet stays malformed until someone edits it */
+  get retryable(): boolean {
+    if (this.kind === 'network') return true;
+    if (this.kind === 'http') {
+      return this.status === undefined || this.status >= 500 || this.status === 408 || this.status === 429;
+    }
+    return false;
+  }
+
+  /** Wrap any thrown value, keeping BoothDataErrors as they are */
+  static from(error: unknown): BoothDataError {
+    if (error instanceof BoothDataError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    return new BoothDataError('network', message);
+  }
+}
+
+// Append a cache-busting timestamp so we always get fresh sheet data
+const withCacheBust = (url: string): string => {
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}_=${Date.now()}`;
+};
+
+const fetchOk = async (url: string): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new BoothDataError('network', `Could not reach ${url}: ${error instanceof Error ? error.message : error}`);
+  }
+  console.log('📡 Response status:', response.status, response.statusText);
+
+  if (!response.ok) {
+    throw new BoothDataError('http', `Failed to fetch sheet data: HTTP ${response.status} ${response.statusText}`, response.status);
+  }
+  return response;
+};
+
+const readJson = async (response: Response): Promise<any> => {
+  try {
+    return await response.json();
+  } catch (error) {
+    throw new BoothDataError('parse', `Booth data is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+// Rows must be objects keyed by column header
+const expectRows = (value: unknown, description: string): SheetRow[] => {
+  if (!Array.isArray(value)) {
+    throw new BoothDataError('schema', `Expected an array of rows from ${description}`);
+  }
+  if (value.some(row => typeof row !== 'object' || row === null || Array.isArray(row))) {
+    throw new BoothDataError('schema', `Expected every row from ${description} to be an object`);
+  }
+  return value;
+};
+
+/**
+ * Parse CSV text into rows keyed by the header line.
+ * Supports quoted fields, escaped quotes ("") and CRLF line endings.
+ */
+export const parseCsv = (text: string): SheetRow[] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Last record without trailing newline
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...body] = records;
+  if (!header) return [];
+
+  const keys = header.map(key => key.trim().toLowerCase());
+
+  return body
+    .filter(values => values.some(value => value.trim() !== ''))
+    .map(values => {
+      const row: SheetRow = {};
+      keys.forEach((key, index) => {
+        // Empty cells are treated like missing cells in sheetjson output
+        if (key && values[index] !== undefined && values[index].trim() !== '') {
+          row[key] = values[index].trim();
+        }
+      });
+      return row;
+    });
+};
+
+/**
+ * Google Sheet exposed as JSON via sheetjson.com
+ */
+export class SheetJsonDataSource implements BoothDataSource {
+  readonly description: string;
+
+  constructor(private readonly url: string) {
+    this.description = `sheetjson (${url})`;
+  }
+
+  async fetchRows(): Promise<SheetRow[]> {
+    const cacheBustUrl = withCacheBust(this.url);
+    console.log('🌐 Fetching sheetjson data with cache-bust:', cacheBustUrl);
+
+    const response = await fetchOk(cacheBustUrl);
+    const jsonData = await readJson(response);
+    console.log('📊 Raw sheet JSON rows:', Array.isArray(jsonData) ? jsonData.length : jsonData);
+
+    return expectRows(jsonData, this.description);
+  }
+}
+
+/**
+ * Google Sheet published to the web as CSV (File → Share → Publish to web → CSV)
+ */
+export class CsvSheetDataSource implements BoothDataSource {
+  readonly description: string;
+
+  constructor(private readonly url: string) {
+    this.description = `published CSV (${url})`;
+  }
+
+  async fetchRows(): Promise<SheetRow[]> {
+    const cacheBustUrl = withCacheBust(this.url);
+    console.log('🌐 Fetching published CSV with cache-bust:', cacheBustUrl);
+
+    const response = await fetchOk(cacheBustUrl);
+    const text = await response.text();
+    // An unpublished sheet answers with the Google sign-in page instead of CSV
+    if (/^\s*</.test(text)) {
+      throw new BoothDataError('parse', `Expected CSV from ${this.description} but got HTML`);
+    }
+    const rows = parseCsv(text);
+    console.log(`📊 Parsed ${rows.length} CSV rows`);
+
+    return rows;
+  }
+}
+
+/**
+ * Static JSON file served from the public folder (e.g. data/archived/area1.json).
+ * Accepts either a plain array of rows or an object with a `booths` array.
+ */
+export class StaticJsonDataSource implements BoothDataSource {
+  readonly description: string;
+
+  constructor(private readonly path: string) {
+    this.description = `static JSON (${path})`;
+  }
+
+  async fetchRows(): Promise<SheetRow[]> {
+    // Use process.env.PUBLIC_URL to handle both development and production paths
+    const basePath = process.env.PUBLIC_URL || '';
+    const url = /^https?:\/\//.test(this.path)
+      ? this.path
+      : `${basePath}/${this.path.replace(/^\//, '')}`;
+    console.log('📁 Loading static booth data from:', url);
+
+    const response = await fetchOk(url);
+    const jsonData = await readJson(response);
+
+    return expectRows(jsonData && !Array.isArray(jsonData) ? jsonData.booths : jsonData, this.description);
+  }
+}
+
+/**
+ * Fixed in-memory rows, for tests and demos
+ */
+export class InMemoryDataSource implements BoothDataSource {
+  readonly description = 'in-memory fixture';
+
+  constructor(private readonly rows: SheetRow[]) {}
+
+  async fetchRows(): Promise<SheetRow[]> {
+    // Hand out copies so callers cannot mutate the fixture
+    return this.rows.map(row => ({ ...row }));
+  }
+}
+
+/**
+ * Create a data source adapter from its configuration
+ */
+export function createDataSource(config: DataSourceConfig): BoothDataSource {
+  switch (config.type) {
+    case 'sheetjson':
+      return new SheetJsonDataSource(config.url);
+    case 'csv':
+      return new CsvSheetDataSource(config.url);
+    case 'json':
+      return new StaticJsonDataSource(config.path);
+    case 'memory':
+      return new InMemoryDataSource(config.rows);
+  }
+}
+
+/**
+ * Parse a data source spec string of the form `<type>:<url-or-path>`,
+ * e.g. `json:data/archived/area1.json` or `csv:https://docs.google.com/...`
+ */
+export function parseDataSourceSpec(spec: string | null | undefined): DataSourceConfig | null {
+  if (!spec) return null;
+
+  const separatorIndex = spec.indexOf(':');
+  if (separatorIndex === -1) return null;
+
+  const type = spec.slice(0, separatorIndex).trim().toLowerCase();
+  const location = spec.slice(separatorIndex + 1).trim();
+  if (!location) return null;
+
+  switch (type) {
+    case 'sheetjson':
+      return { type: 'sheetjson', url: location };
+    case 'csv':
+      return { type: 'csv', url: location };
+    case 'json':
+      return { type: 'json', path: location };
+    default:
+      console.warn(`⚠️ Unknown data source type "${type}" in spec "${spec}"`);
+      return null;
+  }
+}
@@ -0,0 +1,23 @@
+import { validateSheetRows } from './boothValidation';
+
+test('reports coerced and inconsistent sheet rows', () => {
+  const issues = validateSheetRows([
+    { id: 'B-2005', name: 'Equinor', status: 'Sold', area: 12, lenght: 3, width: 4 },
+    { name: 'No ID' },
+    { id: 'B-2005', name: 'Telenor', status: 'Available' },
+    { id: 'B-2010', status: 'Maybe' },
+    { id: 'B-2015', name: 'Statkraft', status: 'On hold' },
+    { id: 'B-2020', status: 'Available', area: 30, lenght: 'five', width: 6 },
+    { id: 'B-2050', status: 'Reserved', area: 20, lenght: 5, width: 6 },
+    { id: 'B-2060', status: 'Sold' }
+  ]);
+
+  expect(issues.map(issue => [issue.type, issue.boothId, issue.row])).toEqual([
+    ['missing-id', undefined, 3],
+    ['duplicate-id', 'B-2005', 4],
+    ['unknown-status', 'B-2010', 5],
+    ['invalid-number', 'B-2020', 7],
+    ['area-mismatch', 'B-2050', 8],
+    ['missing-name', 'B-2060', 9]
+  ]);
+});
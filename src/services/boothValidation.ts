@@ -0,0 +1,151 @@
+import { SheetRow } from './boothDataSources';
+import { DataQualityIssue, DataQualityReport, MeshMappingReport } from '../types/dataQuality';
+import { parseStatus } from '../config/statusTheme';
+
+// Allowed difference between area and width × length (m²)
+const AREA_TOLERANCE = 0.01;
+
+const isBlank = (value: any): boolean =>
+  value === null || value === undefined || value === 'undefined' || String(value).trim() === '';
+
+// Sheet rows start at 2 because row 1 holds the column headers
+const sheetRowNumber = (index: number): number => index + 2;
+
+/**
+ * Validate raw sheet rows and collect every data-quality issue found.
+ * Validation never drops rows - it only reports what parsing will coerce.
+ */
+export function validateSheetRows(rows: SheetRow[]): DataQualityIssue[] {
+  const issues: DataQualityIssue[] = [];
+  const firstRowById = new Map<string, number>();
+
+  rows.forEach((row, index) => {
+    const rowNumber = sheetRowNumber(index);
+
+    if (isBlank(row.id)) {
+      issues.push({
+        type: 'missing-id',
+        row: rowNumber,
+        message: `Row ${rowNumber} has no booth ID and is ignored`
+      });
+      return;
+    }
+
+    const id = String(row.id).trim();
+
+    // Duplicate IDs - the last row wins when parsing
+    const firstRow = firstRowById.get(id);
+    if (firstRow !== undefined) {
+      issues.push({
+        type: 'duplicate-id',
+        boothId: id,
+        row: rowNumber,
+        message: `${id} appears again in row ${rowNumber} (first in row ${firstRow}); row ${rowNumber} overwrites it`
+      });
+    } else {
+      firstRowById.set(id, rowNumber);
+    }
+
+    // Unknown statuses are shown as available
+    if (!isBlank(row.status) && !parseStatus(String(row.status))) {
+      issues.push({
+        type: 'unknown-status',
+        boothId: id,
+        row: rowNumber,
+        message: `${id} has unknown status "${row.status}" and is shown as available`
+      });
+    }
+
+    // Non-numeric dimensions become 0
+    const numbers: Record<string, number> = {};
+    const columns: Record<string, any> = {
+      width: row.width,
+      lenght: row.lenght ?? row.length ?? row.height, // Note: API has "lenght" typo
+      area: row.area
+    };
+    Object.entries(columns).forEach(([column, value]) => {
+      if (isBlank(value)) return;
+
+      const parsed = parseFloat(String(value));
+      if (isNaN(parsed)) {
+        issues.push({
+          type: 'invalid-number',
+          boothId: id,
+          row: rowNumber,
+          message: `${id} has non-numeric ${column} "${value}" (treated as 0)`
+        });
+      } else {
+        numbers[column] = parsed;
+      }
+    });
+
+    // Area should match width × length when both dimensions are filled in
+    const { width, lenght: length, area = 0 } = numbers;
+    if (width > 0 && length > 0 && Math.abs(width * length - area) > AREA_TOLERANCE) {
+      issues.push({
+        type: 'area-mismatch',
+        boothId: id,
+        row: rowNumber,
+        message: `${id} area is ${area}m² but ${width}m × ${length}m = ${width * length}m²`
+      });
+    }
+
+    // Sold booths must name their exhibitor
+    if (String(row.status || '').trim().toLowerCase() === 'sold' && isBlank(row.name)) {
+      issues.push({
+        type: 'missing-name',
+        boothId: id,
+        row: rowNumber,
+        message: `${id} is sold but has no exhibitor name`
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Create issues for booth-to-mesh mapping problems in the loaded model
+ */
+export function createMeshMappingIssues(report: MeshMappingReport | null, modelName: string): DataQualityIssue[] {
+  if (!report) return [];
+
+  const missingManifestIds = new Set(report.missingManifestMeshes.map(entry => entry.boothId));
+  const ambiguousIds = new Set(report.ambiguousBooths.map(entry => entry.boothId));
+
+  return [
+    ...report.missingManifestMeshes.map(({ boothId, mesh }) => ({
+      type: 'no-mesh' as const,
+      boothId,
+      message: `${boothId} is mapped to "${mesh}", which is not in the ${modelName} model`
+    })),
+    ...report.unmappedBoothIds
+      .filter(boothId => !missingManifestIds.has(boothId) && !ambiguousIds.has(boothId))
+      .map(boothId => ({
+        type: 'no-mesh' as const,
+        boothId,
+        message: `${boothId} has no matching mesh in the ${modelName} model`
+      })),
+    ...report.ambiguousBooths.map(({ boothId, meshNames }) => ({
+      type: 'ambiguous-mesh' as const,
+      boothId,
+      message: `${boothId} matches several meshes (${meshNames.join(', ')}); add it to meshMapping`
+    })),
+    ...report.orphanMeshNames.map(meshName => ({
+      type: 'orphan-mesh' as const,
+      message: `Booth mesh ${meshName} has no booth in the data`
+    }))
+  ];
+}
+
+/**
+ * Build a complete data-quality report for a set of rows
+ */
+export function createDataQualityReport(rows: SheetRow[], source: string): DataQualityReport {
+  return {
+    source,
+    checkedAt: Date.now(),
+    rowCount: rows.length,
+    issues: validateSheetRows(rows)
+  };
+}
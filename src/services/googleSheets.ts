@@ -1,38 +1,91 @@
 import { BoothStatus } from '../types/booth';
 import { Booth } from '../types/booth';
+import {
+  BoothDataError,
+  BoothDataSource,
+  SheetRow,
+  createDataSource,
+  parseDataSourceSpec
+} from './boothDataSources';
+import { createDataQualityReport } from './boothValidation';
+import { loadCachedBoothRows, saveCachedBoothRows } from './boothCache';
+import { Backoff, LiveUpdateChannel, createLiveUpdateChannel, parseLiveUpdateSpec } from './liveUpdates';
+import { DataQualityReport } from '../types/dataQuality';
+import { getEventForArea } from '../config/eventRegistry';
+import { getStatusStyle, parseStatus, toCssColor } from '../config/statusTheme';
 
-// URLs for different Google Sheets via sheetjson.com
-const SHEET_URLS = {
-  // MainExhibitionHall (OTD TechDays 2026)
-  techDays: 'https://sheetjson.com/spreadsheets/d/1nJL3jkJCrJZy2acn60bZeVYXmw4m_wa6An68Oqjb8ds?gid=0',
-  // All OTD Energy 2027 areas (Hall_B_2, Hall_C, Hall_E_3, all_in_one)
-  energy: 'https://sheetjson.com/spreadsheets/d/18ib8qaAeBJtlVKJN6xmyCLfyD_9LLvyojxGFMl-jvYY?gid=0'
+// Build-time overrides per event ID, e.g.
+// REACT_APP_DATA_SOURCES="energy=json:data/archived/area1.json;techDays=csv:https://..."
+const parseEnvDataSources = (value: string | undefined): Map<string, string> => {
+  const specs = new Map<string, string>();
+  (value || '').split(';').forEach(entry => {
+    const separatorIndex = entry.indexOf('=');
+    if (separatorIndex > 0) {
+      specs.set(entry.slice(0, separatorIndex).trim(), entry.slice(separatorIndex + 1).trim());
+    }
+  });
+  return specs;
 };
 
-// Function to get the correct sheet URL based on areaId
-const getSheetUrlForArea = (areaId: string): string => {
-  switch (areaId) {
-    case 'MainExhibitionHall':
-      return SHEET_URLS.techDays;
-    case 'Hall_B_2':
-    case 'Hall_C':
-    case 'Hall_E_3':
-    case 'all_in_one':
-    default:
-      return SHEET_URLS.energy;
+const ENV_DATA_SOURCES = parseEnvDataSources(process.env.REACT_APP_DATA_SOURCES);
+
+// Live update channels per event ID, same format as REACT_APP_DATA_SOURCES, e.g.
+// REACT_APP_LIVE_UPDATES="energy=sse:http://localhost:8787/events;techDays=polling:15000"
+const ENV_LIVE_UPDATES = parseEnvDataSources(process.env.REACT_APP_LIVE_UPDATES);
+
+// Runtime overrides registered from code (tests, demos)
+const registeredDataSources = new Map<string, BoothDataSource>();
+
+/**
+ * Register a data source for an event, or pass null to restore the configured one
+ */
+export function setDataSourceForEvent(eventId: string, source: BoothDataSource | null): void {
+  if (source) {
+    registeredDataSources.set(eventId, source);
+  } else {
+    registeredDataSources.delete(eventId);
   }
+}
+
+// URL overrides are keyed by event ID (e.g. ?dataSource.energy=...), so other events keep their own sources
+const getUrlSpecForEvent = (parameter: string, eventId: string): string | null =>
+  new URLSearchParams(window.location.search).get(`${parameter}.${eventId}`);
+
+// Resolve the data source for an area.
+// Priority: registered source → ?dataSource.<eventId>= URL parameter → REACT_APP_DATA_SOURCES → events.json
+export const getDataSourceForArea = (areaId: string): BoothDataSource => {
+  const event = getEventForArea(areaId);
+
+  const registered = registeredDataSources.get(event.id);
+  if (registered) return registered;
+
+  const config = parseDataSourceSpec(getUrlSpecForEvent('dataSource', event.id))
+    || parseDataSourceSpec(ENV_DATA_SOURCES.get(event.id))
+    || event.dataSource;
+
+  return createDataSource(config);
+};
+
+// Resolve the live update channel for an area.
+// Priority: ?live.<eventId>= URL parameter → REACT_APP_LIVE_UPDATES → events.json → polling the data source
+export const getLiveUpdateChannelForArea = (areaId: string): LiveUpdateChannel => {
+  const event = getEventForArea(areaId);
+
+  const config = parseLiveUpdateSpec(getUrlSpecForEvent('live', event.id))
+    || parseLiveUpdateSpec(ENV_LIVE_UPDATES.get(event.id))
+    || event.liveUpdates
+    || { type: 'polling' };
+
+  return createLiveUpdateChannel(config, getDataSourceForArea(areaId));
 };
 
 // Add test function to window for manual testing
-(window as any).testSheetJson = async (areaId: string = 'energy') => {
+(window as any).testSheetJson = async (areaId: string = 'all_in_one') => {
   try {
-    console.log(`🧪 Testing sheetjson.com URL for area: ${areaId}`);
-    const sheetUrl = getSheetUrlForArea(areaId);
-    const cacheBustUrl = `${sheetUrl}&_=${Date.now()}`;
-    console.log('🧪 Cache-bust URL:', cacheBustUrl);
-    
-    const response = await fetch(cacheBustUrl);
-    const data = await response.json();
+    const source = getDataSourceForArea(areaId);
+    console.log(`🧪 Testing ${source.description} for area: ${areaId}`);
+
+    const data = await source.fetchRows();
     console.log('🧪 Test result:', data);
     console.log('🧪 First few items:', JSON.stringify(data.slice(0, 5), null, 2));
     return data;
@@ -41,18 +94,9 @@ const getSheetUrlForArea = (areaId: string): string => {
   }
 };
 
-// Convert Google Sheets status to our internal status format
+// Convert Google Sheets status to our internal status format (unknown statuses are shown as available)
 const normalizeStatus = (sheetStatus: string): BoothStatus => {
-  const status = sheetStatus.toLowerCase();
-  switch (status) {
-    case 'sold':
-      return 'sold';
-    case 'reserved':
-      return 'reserved';
-    case 'available':
-    default:
-      return 'available';
-  }
+  return parseStatus(sheetStatus) || 'available';
 };
 
 // Helper function to safely get string value from sheet cell
@@ -63,97 +107,183 @@ const getStringValue = (value: any, fallback: string = ''): string => {
   return String(value).trim();
 };
 
-// Helper function to get color based on status
-const getColorForStatus = (status: BoothStatus): string => {
-  switch (status) {
-    case 'sold':
-      return '#66aaff';     // Blue
-    case 'reserved':
-      return '#ffaa66';     // Orange
-    case 'available':
-      return '#cccccc';     // Gray
-    case 'nil':
-      return '#ff69b4';     // Pink - indicates missing data
-    default:
-      return '#cccccc';
+// Normalize a column header for lookups ("Logo URL", "logo_url" and "logourl" are the same)
+const normalizeColumnName = (name: string): string => name.toLowerCase().replace(/[\s_-]/g, '');
+
+// Helper function to get the first non-empty value of a column, trying several header names
+const getColumnValue = (row: SheetRow, columnNames: string[]): string => {
+  const wanted = columnNames.map(normalizeColumnName);
+  const key = Object.keys(row).find(column =>
+    wanted.includes(normalizeColumnName(column)) && getStringValue(row[column]) !== ''
+  );
+  return key ? getStringValue(row[key]) : '';
+};
+
+// Helper function to make sure website links are absolute
+const normalizeWebsite = (website: string): string => {
+  if (!website) return '';
+  return /^https?:\/\//i.test(website) ? website : `https://${website}`;
+};
+
+// Extract optional exhibitor details; missing columns simply leave the fields undefined
+const getExhibitorDetails = (row: SheetRow): Partial<Booth> => {
+  const details: Partial<Booth> = {
+    standNumber: getColumnValue(row, ['stand', 'standnumber', 'hallstand', 'hall/stand']),
+    logoUrl: getColumnValue(row, ['logo', 'logourl']),
+    website: normalizeWebsite(getColumnValue(row, ['website', 'web', 'url'])),
+    description: getColumnValue(row, ['description', 'about']),
+    contactName: getColumnValue(row, ['contact', 'contactname', 'contactperson']),
+    contactEmail: getColumnValue(row, ['email', 'contactemail']),
+    contactPhone: getColumnValue(row, ['phone', 'contactphone', 'telephone']),
+    price: getColumnValue(row, ['price', 'boothprice'])
+  };
+
+  const categories = getColumnValue(row, ['categories', 'productcategories', 'category'])
+    .split(/[,;]/)
+    .map(category => category.trim())
+    .filter(Boolean);
+  if (categories.length > 0) {
+    details.categories = categories;
   }
+
+  // Drop empty values so "not provided" is always undefined
+  (Object.keys(details) as (keyof Booth)[]).forEach(key => {
+    if (details[key] === '') {
+      delete details[key];
+    }
+  });
+
+  return details;
 };
 
-// Fetch complete booth information from Google Sheets using sheetjson.com API
-// Returns a map of booth ID to complete booth data
-export async function fetchBoothInfoFromSheets(areaId: string): Promise<Map<string, Booth>> {
+// Parse raw sheet rows into a map of booth ID to complete booth data
+export function parseBoothRows(rows: SheetRow[]): Map<string, Booth> {
   const boothMap = new Map<string, Booth>();
-  
-  try {
-    // Get the correct sheet URL for this area
-    const sheetUrl = getSheetUrlForArea(areaId);
-    // Add cache-busting timestamp to ensure fresh data
-    const cacheBustUrl = `${sheetUrl}&_=${Date.now()}`;
-    console.log(`🌐 Fetching from URL for area ${areaId} with cache-bust:`, cacheBustUrl);
-    
-    const response = await fetch(cacheBustUrl);
-    console.log('📡 Response status:', response.status, response.statusText);
-    console.log('📡 Response headers:', Object.fromEntries(response.headers.entries()));
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch sheet data: ${response.statusText}`);
-    }
-    
-    const jsonData = await response.json();
-    console.log('📊 FULL Raw Sheet JSON data from sheetjson.com:', jsonData);
-    console.log('📊 Data type:', typeof jsonData);
-    console.log('📊 Array length:', jsonData.length);
-    console.log('📊 First few items:', JSON.stringify(jsonData.slice(0, 5), null, 2));
+
+  // Process each row from the sheet
+  rows.forEach((row: SheetRow, index: number) => {
+    const id = getStringValue(row.id);
     
-    // Process each row from the sheet
-    jsonData.forEach((row: any, index: number) => {
-      const id = getStringValue(row.id);
+    if (id) {
+      // Extract all available booth information from the sheet
+      const status = getStringValue(row.status) || 'Available';
+      const name = getStringValue(row.name); // Default name
+      const width = parseFloat(getStringValue(row.width)) || 0;
+      const height = parseFloat(getStringValue(row.lenght ?? row.length ?? row.height)) || 0; // Note: API has "lenght" typo
+      const area = parseFloat(getStringValue(row.area)) || 0;
+      
+      // Handle status normalization
+      const isEmptyStatus = !status || status === 'undefined' || status === undefined || status.trim() === '';
+      const normalizedStatus = isEmptyStatus ? 'nil' : normalizeStatus(status);
       
-      if (id) {
-        // Extract all available booth information from the sheet
-        const status = getStringValue(row.status) || 'Available';
-        const name = getStringValue(row.name); // Default name
-        const width = parseFloat(getStringValue(row.width)) || 0;
-        const height = parseFloat(getStringValue(row.lenght)) || 0; // Note: API has "lenght" typo
-        const area = parseFloat(getStringValue(row.area)) || 0;
-        
-        // Handle status normalization
-        const isEmptyStatus = !status || status === 'undefined' || status === undefined || status.trim() === '';
-        const normalizedStatus = isEmptyStatus ? 'nil' : normalizeStatus(status);
-        
-        // Create complete booth object
-        const booth: Booth = {
-          id,
-          name,
-          width,
-          height,
-          area,
-          status: normalizedStatus,
-          color: getColorForStatus(normalizedStatus)
-        };
-        
-        // console.log(`🏢 [${index}] Processing booth: ${id}`, {
-        //   status: `"${status}" → ${normalizedStatus}`,
-        //   name,
-        //   dimensions: `${width} × ${height}`,
-        //   totalArea: area
-        // });
-        
-        boothMap.set(id, booth);
-      } else {
-        console.warn(`⚠️ [${index}] Row missing ID:`, row);
+      // Create complete booth object
+      const booth: Booth = {
+        id,
+        name,
+        width,
+        height,
+        area,
+        status: normalizedStatus,
+        color: toCssColor(getStatusStyle(normalizedStatus).color),
+        ...getExhibitorDetails(row)
+      };
+      
+      // console.log(`🏢 [${index}] Processing booth: ${id}`, {
+      //   status: `"${status}" → ${normalizedStatus}`,
+      //   name,
+      //   dimensions: `${width} × ${height}`,
+      //   totalArea: area
+      // });
+      
+      boothMap.set(id, booth);
+    } else {
+      console.warn(`⚠️ [${index}] Row missing ID:`, row);
+    }
+  });
+
+  console.log('🗂️ Final booth information map:', Array.from(boothMap.entries()));
+  return boothMap;
+}
+
+export interface BoothSheetResult {
+  rows: SheetRow[]; // Raw rows, kept so live updates can be applied to them
+  booths: Map<string, Booth>;
+  report: DataQualityReport | null; // null when the rows could not be fetched
+  cachedAt: number | null; // Set when the data source failed and the last known good copy is used
+  error: BoothDataError | null; // Why the data source failed, when cachedAt is set
+}
+
+// Attempts per load for errors that may go away (network, 5xx); the live update channel keeps retrying after that
+const MAX_FETCH_ATTEMPTS = 3;
+
+// Fetch rows, retrying transient failures with exponential backoff
+async function fetchRowsWithRetry(source: BoothDataSource): Promise<SheetRow[]> {
+  const backoff = new Backoff(1000, 8000);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await source.fetchRows();
+    } catch (error) {
+      const dataError = BoothDataError.from(error);
+      if (!dataError.retryable || attempt >= MAX_FETCH_ATTEMPTS) {
+        throw dataError;
       }
-    });
+
+      const delay = backoff.next();
+      console.warn(`⚠️ ${dataError.message} (attempt ${attempt}/${MAX_FETCH_ATTEMPTS}), retrying in ${Math.round(delay / 1000)}s`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// Validate sheet rows and parse them into complete booth data
+export function processBoothRows(rows: SheetRow[], sourceDescription: string): BoothSheetResult {
+  const report = createDataQualityReport(rows, sourceDescription);
+  if (report.issues.length > 0) {
+    console.warn(`⚠️ Found ${report.issues.length} data-quality issues in ${sourceDescription}`);
+  }
+
+  const booths = parseBoothRows(rows);
+  console.log(`📊 Loaded ${booths.size} booth information entries from ${sourceDescription}`);
+  return { rows, booths, report, cachedAt: null, error: null };
+}
+
+// Fetch booth rows from the data source configured for the area,
+// validate them and parse them into complete booth data.
+// Falls back to the last known good rows of the event when the source fails,
+// and throws a BoothDataError when there are none (an empty map would show every booth as available).
+export async function fetchBoothSheet(areaId: string): Promise<BoothSheetResult> {
+  const eventId = getEventForArea(areaId).id;
+
+  try {
+    // Get the correct data source for this area
+    const source = getDataSourceForArea(areaId);
+    console.log(`🌐 Fetching booth data for area ${areaId} from ${source.description}`);
     
-    console.log('🗂️ Final booth information map:', Array.from(boothMap.entries()));
+    const rows: SheetRow[] = await fetchRowsWithRetry(source);
+    console.log('📊 Array length:', rows.length);
+    console.log('📊 First few items:', JSON.stringify(rows.slice(0, 5), null, 2));
     
-    console.log(`📊 Loaded ${boothMap.size} booth information entries from Google Sheets`);
-    return boothMap;
+    saveCachedBoothRows(eventId, rows, source.description);
+    return processBoothRows(rows, source.description);
     
   } catch (error) {
-    console.error('Error fetching booth status from Google Sheets:', error);
-    // Return empty map on error - will fall back to JSON file status
-    return new Map();
+    const dataError = BoothDataError.from(error);
+    console.error(`Error fetching booth status from data source (${dataError.kind}):`, dataError);
+
+    const cached = await loadCachedBoothRows(eventId);
+    if (!cached) {
+      throw dataError;
+    }
+
+    console.warn(`📦 Using cached booth data for ${eventId} from ${new Date(cached.savedAt).toLocaleString()}`);
+    return { ...processBoothRows(cached.rows, `${cached.source} (cached)`), cachedAt: cached.savedAt, error: dataError };
   }
 }
 
+// Fetch complete booth information from the data source configured for the area
+// Returns a map of booth ID to complete booth data
+export async function fetchBoothInfoFromSheets(areaId: string): Promise<Map<string, Booth>> {
+  const { booths } = await fetchBoothSheet(areaId);
+  return booths;
+}
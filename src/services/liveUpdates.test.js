@@ -0,0 +1,30 @@
+import { applyLiveUpdate, parseLiveUpdateSpec } from './liveUpdates';
+
+test('applies pushed row updates by booth ID', () => {
+  const rows = [
+    { id: 'B-1', status: 'Available', name: '' },
+    { id: 'B-2', status: 'Sold', name: 'Equinor' },
+    { id: 'B-3', status: 'Reserved', name: 'Aker' }
+  ];
+
+  const updated = applyLiveUpdate(rows, {
+    type: 'update',
+    rows: [{ id: 'B-1', status: 'Sold', name: 'Statkraft' }, { id: 'B-4', status: 'Available' }],
+    removedIds: ['B-3']
+  });
+
+  expect(updated).toEqual([
+    { id: 'B-1', status: 'Sold', name: 'Statkraft' },
+    { id: 'B-2', status: 'Sold', name: 'Equinor' },
+    { id: 'B-4', status: 'Available' }
+  ]);
+  expect(applyLiveUpdate(rows, { type: 'snapshot', rows: [] })).toEqual([]);
+});
+
+test('parses live update specs', () => {
+  expect(parseLiveUpdateSpec('sse:http://localhost:8787/events')).toEqual({ type: 'sse', url: 'http://localhost:8787/events' });
+  expect(parseLiveUpdateSpec('ws:wss://relay.example.com')).toEqual({ type: 'websocket', url: 'wss://relay.example.com' });
+  expect(parseLiveUpdateSpec('polling:15000')).toEqual({ type: 'polling', intervalMs: 15000 });
+  expect(parseLiveUpdateSpec('polling')).toEqual({ type: 'polling' });
+  expect(parseLiveUpdateSpec('sse:')).toBeNull();
+});
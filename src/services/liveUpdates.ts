@@ -0,0 +1,314 @@
+import { BoothDataError, BoothDataSource, SheetRow } from './boothDataSources';
+
+/**
+ * Live booth updates
+ * A channel pushes sheet rows to the app: Server-Sent Events or WebSocket from a relay
+ * (see scripts/live-relay.js), with polling of the data source as fallback.
+ */
+
+// Messages sent by a relay (JSON, one per SSE event / WebSocket frame)
+export type LiveUpdateMessage =
+  | { type: 'snapshot'; rows: SheetRow[] } // All rows
+  | { type: 'update'; rows: SheetRow[]; removedIds?: string[] }; // Changed or added rows only
+
+export type LiveUpdateStatus = 'connecting' | 'live' | 'polling' | 'reconnecting';
+
+export type LiveUpdateConfig =
+  | { type: 'sse'; url: string }
+  | { type: 'websocket'; url: string }
+  | { type: 'polling'; intervalMs?: number };
+
+export interface LiveUpdateHandlers {
+  onMessage: (message: LiveUpdateMessage) => void;
+  onStatusChange?: (status: LiveUpdateStatus) => void;
+  onError?: (error: BoothDataError) => void; // A poll or connection failed; the channel keeps retrying
+}
+
+export interface LiveUpdateChannel {
+  description: string;
+  // Start receiving updates; returns a function that disconnects
+  connect(handlers: LiveUpdateHandlers): () => void;
+}
+
+// Polling is cheap on the dev server, but public sheet APIs are rate limited
+export const DEFAULT_POLL_INTERVAL = process.env.NODE_ENV === 'development' ? 5000 : 30000;
+
+// Consecutive push failures before polling takes over until the push channel is back
+const FALLBACK_AFTER_FAILURES = 2;
+
+/**
+ * Exponential backoff with jitter for reconnects and failed polls
+ */
+export class Backoff {
+  private attempt = 0;
+
+  constructor(private baseMs: number = 1000, private maxMs: number = 60000) {}
+
+  get failures(): number {
+    return this.attempt;
+  }
+
+  next(): number {
+    const delay = Math.min(this.maxMs, this.baseMs * Math.pow(2, this.attempt));
+    this.attempt++;
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  reset(): void {
+    this.attempt = 0;
+  }
+}
+
+/**
+ * Parse a relay message, ignoring anything that isn't a known message type
+ */
+export function parseLiveUpdateMessage(data: string): LiveUpdateMessage | null {
+  try {
+    const message = JSON.parse(data);
+    if ((message?.type === 'snapshot' || message?.type === 'update') && Array.isArray(message.rows)) {
+      return message;
+    }
+  } catch {
+    // Fall through to the warning below
+  }
+  console.warn('⚠️ Ignoring malformed live update message:', data);
+  return null;
+}
+
+/**
+ * Fetches all rows from the data source on an interval
+ */
+export class PollingChannel implements LiveUpdateChannel {
+  description: string;
+
+  constructor(private source: BoothDataSource, private intervalMs: number = DEFAULT_POLL_INTERVAL) {
+    this.description = `polling ${source.description} every ${intervalMs / 1000}s`;
+  }
+
+  connect(handlers: LiveUpdateHandlers): () => void {
+    const backoff = new Backoff(this.intervalMs, Math.max(this.intervalMs, 5 * 60000));
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+
+    const poll = async () => {
+      let delay = this.intervalMs;
+      try {
+        const rows = await this.source.fetchRows();
+        if (stopped) return;
+        backoff.reset();
+        handlers.onMessage({ type: 'snapshot', rows });
+      } catch (error) {
+        delay = backoff.next();
+        console.warn(`⚠️ Polling ${this.source.description} failed, retrying in ${Math.round(delay / 1000)}s:`, error);
+        handlers.onError?.(BoothDataError.from(error));
+      }
+      if (!stopped) {
+        timer = setTimeout(poll, delay);
+      }
+    };
+
+    handlers.onStatusChange?.('polling');
+    timer = setTimeout(poll, this.intervalMs);
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    };
+  }
+}
+
+interface PushConnection {
+  close: () => void;
+}
+
+interface PushCallbacks {
+  onOpen: () => void;
+  onMessage: (data: string) => void;
+  onFailure: () => void;
+}
+
+/**
+ * Base for channels that keep a connection open to a relay.
+ * Reconnects with backoff and polls through the fallback channel while disconnected.
+ */
+abstract class PushChannel implements LiveUpdateChannel {
+  abstract description: string;
+
+  constructor(protected url: string, private fallback: LiveUpdateChannel | null) {}
+
+  protected abstract open(callbacks: PushCallbacks): PushConnection;
+
+  connect(handlers: LiveUpdateHandlers): () => void {
+    const backoff = new Backoff();
+    let connection: PushConnection | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let stopFallback: (() => void) | null = null;
+    let stopped = false;
+
+    const stopPolling = () => {
+      stopFallback?.();
+      stopFallback = null;
+    };
+
+    const openConnection = () => {
+      let failed = false;
+      if (!stopFallback) {
+        handlers.onStatusChange?.(backoff.failures === 0 ? 'connecting' : 'reconnecting');
+      }
+
+      connection = this.open({
+        onOpen: () => {
+          console.log(`📡 Connected to ${this.description}`);
+          backoff.reset();
+          stopPolling();
+          handlers.onStatusChange?.('live');
+        },
+        onMessage: data => {
+          const message = parseLiveUpdateMessage(data);
+          if (message) handlers.onMessage(message);
+        },
+        onFailure: () => {
+          // Error and close events both end up here; handle each connection once
+          if (failed || stopped) return;
+          failed = true;
+          connection?.close();
+          connection = null;
+
+          const delay = backoff.next();
+          console.warn(`⚠️ Lost ${this.description}, reconnecting in ${Math.round(delay / 1000)}s`);
+          // While the fallback is polling, its own failures are the ones that matter
+          if (!stopFallback) {
+            handlers.onError?.(new BoothDataError('network', `Lost ${this.description}`));
+          }
+
+          if (this.fallback && !stopFallback && backoff.failures >= FALLBACK_AFTER_FAILURES) {
+            console.log(`📡 Falling back to ${this.fallback.description}`);
+            stopFallback = this.fallback.connect(handlers);
+          } else if (!stopFallback) {
+            handlers.onStatusChange?.('reconnecting');
+          }
+          retryTimer = setTimeout(openConnection, delay);
+        }
+      });
+    };
+
+    openConnection();
+
+    return () => {
+      stopped = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      connection?.close();
+      stopPolling();
+    };
+  }
+}
+
+/**
+ * Server-Sent Events from a relay
+ */
+export class EventSourceChannel extends PushChannel {
+  description: string;
+
+  constructor(url: string, fallback: LiveUpdateChannel | null) {
+    super(url, fallback);
+    this.description = `live updates (SSE) from ${url}`;
+  }
+
+  protected open({ onOpen, onMessage, onFailure }: PushCallbacks): PushConnection {
+    const eventSource = new EventSource(this.url);
+    eventSource.onopen = onOpen;
+    eventSource.onmessage = event => onMessage(event.data);
+    // EventSource retries on its own without backoff, so close it and retry ourselves
+    eventSource.onerror = onFailure;
+    return { close: () => eventSource.close() };
+  }
+}
+
+/**
+ * WebSocket messages from a relay
+ */
+export class WebSocketChannel extends PushChannel {
+  description: string;
+
+  constructor(url: string, fallback: LiveUpdateChannel | null) {
+    super(url, fallback);
+    this.description = `live updates (WebSocket) from ${url}`;
+  }
+
+  protected open({ onOpen, onMessage, onFailure }: PushCallbacks): PushConnection {
+    const socket = new WebSocket(this.url);
+    socket.onopen = onOpen;
+    socket.onmessage = event => onMessage(String(event.data));
+    socket.onerror = onFailure;
+    socket.onclose = onFailure;
+    return {
+      close: () => {
+        socket.onclose = null;
+        socket.close();
+      }
+    };
+  }
+}
+
+/**
+ * Create a live update channel; push channels poll the data source while disconnected
+ */
+export function createLiveUpdateChannel(config: LiveUpdateConfig, source: BoothDataSource): LiveUpdateChannel {
+  switch (config.type) {
+    case 'sse':
+      return new EventSourceChannel(config.url, new PollingChannel(source));
+    case 'websocket':
+      return new WebSocketChannel(config.url, new PollingChannel(source));
+    case 'polling':
+      return new PollingChannel(source, config.intervalMs);
+  }
+}
+
+/**
+ * Parse a live update spec: "sse:<url>", "ws:<url>" or "polling[:<interval ms>]"
+ */
+export function parseLiveUpdateSpec(spec: string | null | undefined): LiveUpdateConfig | null {
+  if (!spec) return null;
+
+  const separatorIndex = spec.indexOf(':');
+  const type = (separatorIndex === -1 ? spec : spec.slice(0, separatorIndex)).trim().toLowerCase();
+  const location = separatorIndex === -1 ? '' : spec.slice(separatorIndex + 1).trim();
+
+  switch (type) {
+    case 'sse':
+      return location ? { type: 'sse', url: location } : null;
+    case 'ws':
+    case 'websocket':
+      return location ? { type: 'websocket', url: location } : null;
+    case 'polling': {
+      const intervalMs = parseInt(location, 10);
+      return intervalMs > 0 ? { type: 'polling', intervalMs } : { type: 'polling' };
+    }
+    default:
+      console.warn(`⚠️ Unknown live update type "${type}" in spec "${spec}"`);
+      return null;
+  }
+}
+
+/**
+ * Apply a live update message to the last known rows, keyed by row ID
+ */
+export function applyLiveUpdate(rows: SheetRow[], message: LiveUpdateMessage): SheetRow[] {
+  if (message.type === 'snapshot') return message.rows;
+
+  const rowId = (row: SheetRow): string => String(row.id ?? '').trim();
+  const removedIds = new Set(message.removedIds || []);
+  const updatedRows = new Map(message.rows.map(row => [rowId(row), row]));
+
+  const merged = rows
+    .filter(row => !removedIds.has(rowId(row)))
+    .map(row => {
+      const update = updatedRows.get(rowId(row));
+      if (!update) return row;
+      updatedRows.delete(rowId(row));
+      return { ...row, ...update };
+    });
+
+  // Rows that weren't there before are appended
+  return merged.concat(Array.from(updatedRows.values()));
+}
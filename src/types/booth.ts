@@ -1,4 +1,12 @@
-export type BoothStatus = 'sold' | 'reserved' | 'available' | 'nil';
+export type BoothStatus =
+  | 'sold'
+  | 'reserved'
+  | 'available'
+  | 'on-hold'
+  | 'sponsor'
+  | 'blocked'
+  | 'pending-payment'
+  | 'nil'; // No status in the sheet
 
 export interface Booth {
   id: string; // Booth ID that corresponds to 3D model components
@@ -8,6 +16,16 @@ export interface Booth {
   area: number; // Total area from sheets
   status: BoothStatus;
   color: string;
+  // Optional exhibitor details from additional sheet columns
+  standNumber?: string; // Hall/stand number shown to visitors (e.g. "B-2050" or "Hall B, stand 12")
+  logoUrl?: string;
+  website?: string;
+  description?: string;
+  contactName?: string;
+  contactEmail?: string;
+  contactPhone?: string;
+  categories?: string[]; // Product categories
+  price?: string; // Booth price as written in the sheet (e.g. "€4,500"), shown on callouts of booths for sale
 }
 
 export interface Stage {
@@ -32,9 +50,28 @@ export interface AreaData {
   // Note: rootDimensions and stages are now handled by 3D models
 }
 
-export interface StatusColors {
-  sold: number;
-  reserved: number;
-  available: number;
-  nil: number;
-}
\ No newline at end of file
+export interface BoothStatusChange {
+  id: number; // Increasing sequence number, so consumers can tell new changes from seen ones
+  boothId: string;
+  name: string; // Exhibitor name after the change
+  previousStatus: BoothStatus;
+  status: BoothStatus;
+  changedAt: number; // Timestamp (ms) when the change was detected
+}
+
+export type StatusFilterMode = 'dim' | 'hide';
+
+export interface StatusFilter {
+  statuses: BoothStatus[]; // Statuses to focus on; empty shows all booths
+  mode: StatusFilterMode; // What happens to the other booths
+}
+
+export interface StatusStyle {
+  label: string; // Display name
+  color: number; // Booth mesh color
+  glowColor: number; // Hover and highlight glow
+  callout: { gradient: string[]; shadow: string }; // Info callout background
+  forSale: boolean; // Callouts show size for booths for sale, exhibitor and status otherwise
+  celebrate: boolean; // A booth for sale getting this status is a sale, celebrated with confetti
+  aliases: string[]; // Other spellings accepted from the sheet
+}
@@ -0,0 +1,36 @@
+export type DataQualityIssueType =
+  | 'missing-id'
+  | 'duplicate-id'
+  | 'unknown-status'
+  | 'invalid-number'
+  | 'area-mismatch'
+  | 'missing-name'
+  | 'no-mesh'
+  | 'ambiguous-mesh'
+  | 'orphan-mesh';
+
+export interface DataQualityIssue {
+  type: DataQualityIssueType;
+  boothId?: string;
+  row?: number; // 1-based sheet row (header is row 1)
+  message: string;
+}
+
+export interface DataQualityReport {
+  source: string; // Description of the data source the rows came from
+  checkedAt: number; // Timestamp of the validation run
+  rowCount: number;
+  issues: DataQualityIssue[];
+}
+
+// How a booth was matched to its mesh: mapping manifest, exact name pattern or partial name match
+export type MeshMatchMethod = 'manifest' | 'name' | 'partial';
+
+// Result of mapping booths to the meshes of a model
+export interface MeshMappingReport {
+  matches: { boothId: string; meshName: string; method: MeshMatchMethod }[];
+  unmappedBoothIds: string[]; // Booths without a mesh
+  ambiguousBooths: { boothId: string; meshNames: string[] }[]; // Partial name matches on several meshes, left unmapped
+  orphanMeshNames: string[]; // Booth meshes without a booth in the data
+  missingManifestMeshes: { boothId: string; mesh: string }[]; // Mapping manifest entries naming a mesh that isn't in the model
+}
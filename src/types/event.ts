@@ -0,0 +1,117 @@
+import { DataSourceConfig } from '../services/boothDataSources';
+import { LiveUpdateConfig } from '../services/liveUpdates';
+
+/**
+ * Camera position and look-at target
+ */
+export interface CameraPosition {
+  x: number;
+  y: number;
+  z: number;
+  targetX: number;
+  targetY: number;
+  targetZ: number;
+}
+
+/**
+ * Named camera view of an area, captured with the viewpoint editor (?debug=viewpoints)
+ */
+export interface Viewpoint extends CameraPosition {
+  name: string;
+}
+
+/**
+ * Camera motion played at a tour waypoint after arriving
+ */
+export type TourMotion =
+  | { type: 'orbit'; duration?: number; degrees?: number } // Circle around the viewed spot (default 360° in 10 s)
+  | { type: 'pan'; duration?: number; x: number; z: number }; // Slide camera and target by this offset
+
+/**
+ * A step of an attract-mode tour: fly to a waypoint, play an optional motion, then dwell
+ */
+export interface TourStep {
+  camera: CameraPosition; // Waypoint
+  flyDuration?: number; // Milliseconds to fly to the waypoint (default 4000)
+  motion?: TourMotion;
+  dwell?: number; // Milliseconds to hold the view before the next step (default 0)
+  highlightBooths?: string[]; // Booth IDs pulsed on arrival
+  caption?: string; // Shown while the step plays
+  spotlightBooth?: string; // Booth ID whose info callout opens on arrival
+}
+
+/**
+ * Booths for sale visited between a tour's steps, e.g. for sales kiosks
+ */
+export interface TourSpotlight {
+  boothsPerStop?: number; // Available booths shown after each scripted step (default 2)
+  dwell?: number; // Milliseconds each booth's callout is shown (default 6000)
+  flyDuration?: number; // Milliseconds to fly to each booth (default 2500)
+}
+
+/**
+ * Attract-mode tour of an area, started when nobody has used the screen for a while
+ */
+export interface TourScript {
+  steps: TourStep[];
+  idleTimeout?: number; // Milliseconds without interaction before the tour starts; 0 = only started through the API
+  loop?: boolean; // Start over after the last step (default true)
+  spotlightAvailable?: TourSpotlight; // Visit available booths in turn, a few after each step
+}
+
+/**
+ * Tour step as written in events.json: the waypoint is a camera position or the name of one of the area's viewpoints
+ */
+export type TourStepConfig = Omit<TourStep, 'camera'> & ({ camera: CameraPosition } | { viewpoint: string });
+
+export interface TourScriptConfig extends Omit<TourScript, 'steps'> {
+  steps: TourStepConfig[];
+}
+
+/**
+ * Callout sizing for an area
+ */
+export interface CalloutSizing {
+  infoHeightOffset: number; // Height above booth center for info callouts
+  nameHeightOffset: number; // Height above booth center for name callouts
+  infoScale: number; // Size multiplier for info callouts
+  infoScaleAvailable?: number; // Size multiplier for info callouts of available booths (defaults to infoScale)
+  nameScale: number; // Size multiplier for name callouts
+}
+
+/**
+ * Lower-detail variant of an area model
+ */
+export interface ModelLodConfig {
+  modelPath: string; // GLB path relative to PUBLIC_URL; same bounds and booth mesh names as the main model
+  distance: number; // Shown while the camera is at least this far from its target
+}
+
+export interface AreaConfig {
+  id: string; // Area ID, also used in URLs and for per-area config lookups
+  name: string; // Display name
+  modelPath: string; // GLB path relative to PUBLIC_URL
+  modelScale?: number; // Extra scale applied after normalizing the model size (default 1)
+  fallbackModelPath?: string; // Lower-detail GLB shown when the main model fails to load
+  lods?: ModelLodConfig[]; // Lower-detail variants switched by camera distance (coarsest loads first)
+  boothIdPrefixes: string[]; // Booths shown in this area's own model (e.g. ["B-"]); empty = all
+  meshMapping?: Record<string, string>; // Booth ID → mesh name or UUID; overrides name-pattern matching
+  viewpoints: Viewpoint[]; // Named camera views; the first is the starting view
+  tour?: TourScriptConfig; // Attract-mode tour; areas without one orbit their starting view
+  callouts?: Partial<CalloutSizing>;
+}
+
+export interface EventConfig {
+  id: string;
+  name: string;
+  dataSource: DataSourceConfig;
+  liveUpdates?: LiveUpdateConfig; // How booth changes reach the app after load (default: polling the data source)
+  boothIdPrefixes?: string[]; // Booth IDs belonging to this event; omitted = all rows in the sheet
+  areas: AreaConfig[];
+}
+
+export interface EventManifest {
+  defaultAreaId: string;
+  tourIdleTimeout?: number; // Default milliseconds without interaction before an area's tour starts (default 240000)
+  events: EventConfig[];
+}
@@ -1,4 +1,6 @@
 import * as THREE from 'three';
+import { getCalloutSizing } from '../config/eventRegistry';
+import { getStatusStyle } from '../config/statusTheme';
 
 /**
  * Utility class for managing callout sprites and their lifecycle
@@ -28,62 +30,23 @@ export class CalloutManager {
    * Get height offset for callouts based on area and callout type
    */
   static getHeightOffset(currentArea: string, calloutType: 'info' | 'name'): number {
-    const offsets = {
-      info: {
-        'all_in_one': 0.6,
-        'MainExhibitionHall': 1.2,
-        default: 1.0
-      } as Record<string, number>,
-      name: {
-        'MainExhibitionHall': 0.8,
-        default: 0.41
-      } as Record<string, number>
-    };
-
-    return offsets[calloutType][currentArea] || offsets[calloutType].default;
+    const sizing = getCalloutSizing(currentArea);
+    return calloutType === 'info' ? sizing.infoHeightOffset : sizing.nameHeightOffset;
   }
 
   /**
-   * Get size multiplier based on area and callout context
+   * Get size multiplier for info callouts based on area and booth availability
    */
-  static getSizeMultiplier(currentArea: string, calloutContext: {
-    isTechDays2026?: boolean;
-    isIndividualHall?: boolean;
-    isAllInOneOverview?: boolean;
-    isAvailable?: boolean;
-  } = {}): number {
-    const { isTechDays2026, isIndividualHall, isAllInOneOverview, isAvailable } = calloutContext;
-    
-    if (isTechDays2026 && isAvailable) {
-      return 4; // 4x size for available booths in MainExhibitionHall
-    } else if (isTechDays2026) {
-      return 2; // 2x size for sold/reserved booths in MainExhibitionHall
-    } else if (isIndividualHall) {
-      return 2.5; // 2.5x size for individual halls
-    } else if (isAllInOneOverview) {
-      return 0.7; // Smaller size for overview
-    } else {
-      return 1; // Default size
-    }
+  static getSizeMultiplier(currentArea: string, isAvailable: boolean = false): number {
+    const sizing = getCalloutSizing(currentArea);
+    return isAvailable ? sizing.infoScaleAvailable ?? sizing.infoScale : sizing.infoScale;
   }
 
   /**
    * Get sprite size multiplier for name callouts specifically
    */
   static getNameCalloutSizeMultiplier(currentArea: string): number {
-    const isMainExhibitionHall = currentArea === 'MainExhibitionHall';
-    const isIndividualHall = ['Hall_B_2', 'Hall_C', 'Hall_E_3'].includes(currentArea);
-    const isAllInOneOverview = currentArea === 'all_in_one';
-    
-    if (isMainExhibitionHall) {
-      return 2;
-    } else if (isIndividualHall) {
-      return 1.8;
-    } else if (isAllInOneOverview) {
-      return 0.7;
-    } else {
-      return 1;
-    }
+    return getCalloutSizing(currentArea).nameScale;
   }
 
   /**
@@ -139,45 +102,38 @@ export class CalloutManager {
     displayName?: string
   ): void {
     if (calloutType === 'info') {
-      const areaLabel = area === 'MainExhibitionHall' ? 'TechDays 2026' : area;
-      const availabilityLabel = isAvailable ? 'AVAILABLE' : 'SOLD/RESERVED';
+      const availabilityLabel = isAvailable ? 'AVAILABLE' : 'TAKEN';
       
       if (sizeMultiplier && sizeMultiplier > 1) {
-        console.log(`🎯 Created ${sizeMultiplier}x larger sprite callout for ${availabilityLabel} ${areaLabel} booth ${boothId}`);
+        console.log(`🎯 Created ${sizeMultiplier}x larger sprite callout for ${availabilityLabel} ${area} booth ${boothId}`);
       }
     } else if (calloutType === 'name') {
       const shouldWrap = displayName && displayName.length > 10;
       const wrapLabel = shouldWrap ? 'multi-line' : 'single-line';
       
-      if (area === 'MainExhibitionHall') {
-        console.log(`🏢 Created 2x larger name callout for MainExhibitionHall booth ${boothId}: ${displayName} (${wrapLabel})`);
-      } else if (['Hall_B_2', 'Hall_C', 'Hall_E_3'].includes(area)) {
-        console.log(`🏢 Created 1.8x larger name callout for individual hall ${area} booth ${boothId}: ${displayName} (${wrapLabel})`);
-      } else if (area === 'all_in_one') {
-        console.log(`🏢 Created 0.7x smaller name callout for all_in_one overview booth ${boothId}: ${displayName} (${wrapLabel})`);
-      }
+      console.log(`🏢 Created ${sizeMultiplier}x name callout for ${area} booth ${boothId}: ${displayName} (${wrapLabel})`);
     }
   }
 
   /**
-   * Check if booth status is sold or reserved
+   * Check if booth is taken (sold, reserved or any other status that is not for sale)
    */
   static isSoldOrReserved(status: string): boolean {
-    return Boolean(status && (status.toLowerCase() === 'sold' || status.toLowerCase() === 'reserved'));
+    return !this.isAvailable(status);
   }
 
   /**
    * Check if booth is available
    */
   static isAvailable(status: string): boolean {
-    return !this.isSoldOrReserved(status);
+    return getStatusStyle(status?.toLowerCase()).forSale;
   }
 
   /**
    * Get formatted status text
    */
   static getFormattedStatusText(status: string): string {
-    return status.charAt(0).toUpperCase() + status.slice(1).toLowerCase();
+    return getStatusStyle(status?.toLowerCase()).label;
   }
 
   /**
@@ -1,319 +1,209 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
+import { CameraPosition } from '../types/event';
+import { getViewpoints } from '../config/eventRegistry';
+
+export type EasingName = 'linear' | 'easeInOutSine' | 'easeOutCubic' | 'easeInOutCubic' | 'easeOutQuint';
 
 /**
- * Camera position configuration for different areas
+ * Easing functions mapping progress 0..1 to eased progress 0..1
  */
-interface CameraPosition {
-  x: number;
-  y: number;
-  z: number;
-  targetX: number;
-  targetY: number;
-  targetZ: number;
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: t => t,
+  easeInOutSine: t => -(Math.cos(Math.PI * t) - 1) / 2,
+  easeOutCubic: t => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeOutQuint: t => 1 - Math.pow(1 - t, 5)
+};
+
+export interface CameraAnimationOptions {
+  duration?: number; // Milliseconds
+  easing?: EasingName | ((t: number) => number);
+  cancelOnUserInput?: boolean; // Stop when the user starts dragging/zooming (default true)
+  onComplete?: () => void;
+  onCancel?: () => void;
+}
+
+export interface FramingOptions {
+  padding?: number; // Extra space around the object (1 = tight fit)
+  polarAngle?: number; // Degrees from straight down (0) to horizontal (90)
+  azimuth?: number; // Degrees around the vertical axis; defaults to the current viewing direction
+}
+
+export interface CameraAnimationHandle {
+  cancel: () => void;
+  isFinished: () => boolean;
 }
 
 /**
  * Utility class for managing camera animations and positioning
  */
 export class CameraAnimator {
-  // Track active auto-tour animations for interruption
-  private static activeAutoTourAnimationId: number | null = null;
-  private static activeAutoTourMotionId: number | null = null;
-  /**
-   * Auto-tour positions - only for all_in_one model auto-tour
-   */
-  static readonly AUTO_TOUR_POSITIONS: Record<string, CameraPosition> = {
-    // Auto-tour positions within the all_in_one model
-    'all_in_one': { x: 0.03, y: 7.2, z: 1.6, targetX: 0.03, targetY: 0.93, targetZ: -1.74 },
-    'B': { x: 8.00, y: 3.81, z: -0.71, targetX: 6.85, targetY: -0.66, targetZ: -2.44 },
-    'C': { x: 0.74, y: 3.47, z: 1.39, targetX: 0.76, targetY: 0.21, targetZ: -0.18 },
-    'E': { x: -4.56, y: 3.51, z: -1.8, targetX: -4.81, targetY: 1.47, targetZ: -2.26 }
-  };
-
-  /**
-   * Starting camera positions for each model when first loaded
-   */
-  static readonly STARTING_POSITIONS: Record<string, CameraPosition> = {
-    'MainExhibitionHall': { x: 1.45, y: 14.72, z: 10.42, targetX: 1.45, targetY: -1.07, targetZ: 2.00 },
-    'all_in_one': { x: 0.03, y: 7.2, z: 1.6, targetX: 0.03, targetY: 0.93, targetZ: -1.74 },
-    'Hall_B_2': { x: -0.63, y: 10.49, z: 4.30, targetX: -0.63, targetY: 0.54, targetZ: -1.01 },
-    'Hall_C': { x: 0.88, y: 8.59, z: 4.45, targetX: 0.88, targetY: 0.05, targetZ: -0.10 },
-    'Hall_E_3': { x: -0.60, y: 11.04, z: 7.25, targetX: -0.6, targetY: -0.56, targetZ: 1.06 }
-  };
-
-  /**
-   * Auto-tour hall sequence (circular)
-   */
-  static readonly AUTO_TOUR_HALLS = ['all_in_one', 'B', 'C', 'E'];
+  // Running generic camera animation (frameObject / animateCameraTo)
+  private static activeAnimation: CameraAnimationHandle | null = null;
 
   /**
-   * Stop active auto-tour animations immediately
+   * Get the starting camera position for a model
    */
-  static stopAutoTourAnimations(controls?: OrbitControls): void {
-    if (this.activeAutoTourAnimationId !== null) {
-      cancelAnimationFrame(this.activeAutoTourAnimationId);
-      this.activeAutoTourAnimationId = null;
-      console.log('🛑 Auto-tour camera animation stopped');
-    }
-    if (this.activeAutoTourMotionId !== null) {
-      cancelAnimationFrame(this.activeAutoTourMotionId);
-      this.activeAutoTourMotionId = null;
-      console.log('🛑 Auto-tour circular motion stopped');
-      
-      // Re-enable controls if they were disabled by circular motion
-      if (controls) {
-        controls.enabled = true;
-        controls.update();
-        console.log('🔐 Controls re-enabled after stopping circular motion');
-      }
-    }
+  static getStartingPosition(areaId: string): CameraPosition | null {
+    return getViewpoints(areaId)[0] || null;
   }
 
   /**
-   * Animate camera to a specific position with smooth easing
+   * Animate camera to an arbitrary position/target.
+   * Only one such animation runs at a time; starting a new one cancels the previous.
    */
-  static animateCameraToPosition(
+  static animateCameraTo(
     camera: THREE.Camera,
     controls: OrbitControls,
-    areaId: string,
-    duration: number = 1000,
-    isAutoTour: boolean = false,
-    onComplete?: () => void
-  ): void {
-    // Choose the correct position source based on context
-    const positions = isAutoTour ? this.AUTO_TOUR_POSITIONS : this.STARTING_POSITIONS;
-    const position = positions[areaId];
-    
-    if (!position) {
-      console.warn(`No camera position defined for area: ${areaId} (${isAutoTour ? 'auto-tour' : 'starting'})`);
-      return;
-    }
-    
-    // Only allow auto-tour animations for halls in the auto-tour sequence
-    if (isAutoTour && !this.AUTO_TOUR_HALLS.includes(areaId)) {
-      console.log(`📹 Auto-tour animation only allowed for auto-tour halls: ${areaId}`);
-      return;
-    }
+    position: CameraPosition,
+    options: CameraAnimationOptions = {}
+  ): CameraAnimationHandle {
+    const {
+      duration = 1000,
+      easing = 'easeOutCubic',
+      cancelOnUserInput = true,
+      onComplete,
+      onCancel
+    } = options;
+    const ease = typeof easing === 'function' ? easing : EASINGS[easing];
+
+    // Cancel the previous animation so they don't fight over the camera
+    this.activeAnimation?.cancel();
 
-    const logPrefix = isAutoTour ? '🔄 Auto-tour' : '📹';
-    console.log(`${logPrefix} Focusing camera on ${areaId} at position:`, position);
-    
-    // Create target vectors
     const startPosition = camera.position.clone();
     const startTarget = controls.target.clone();
     const targetPosition = new THREE.Vector3(position.x, position.y, position.z);
     const targetLookAt = new THREE.Vector3(position.targetX, position.targetY, position.targetZ);
-    
-    let animationProgress = 0;
     const startTime = Date.now();
-    
-    const animateCamera = () => {
-      // Check if auto-tour animation was stopped (only for auto-tour)
-      if (isAutoTour && this.activeAutoTourAnimationId === null) {
-        console.log('📹 Auto-tour camera animation was stopped');
-        return;
+
+    let animationId: number | null = null;
+    let finished = false;
+
+    const finish = () => {
+      finished = true;
+      controls.removeEventListener('start', handleUserInput);
+      if (this.activeAnimation === handle) {
+        this.activeAnimation = null;
       }
-      
-      const elapsed = Date.now() - startTime;
-      animationProgress = Math.min(elapsed / duration, 1);
-      
-      // Smooth easing function (cubic ease-out)
-      const eased = 1 - Math.pow(1 - animationProgress, 3);
-      
-      // Interpolate camera position and target
+    };
+
+    const handle: CameraAnimationHandle = {
+      cancel: () => {
+        if (finished) return;
+        if (animationId !== null) {
+          cancelAnimationFrame(animationId);
+        }
+        finish();
+        console.log('🛑 Camera animation cancelled');
+        onCancel?.();
+      },
+      isFinished: () => finished
+    };
+
+    // User grabbing the controls takes over the camera
+    function handleUserInput() {
+      handle.cancel();
+    }
+
+    const animateCamera = () => {
+      const progress = duration > 0 ? Math.min((Date.now() - startTime) / duration, 1) : 1;
+      const eased = ease(progress);
+
       camera.position.lerpVectors(startPosition, targetPosition, eased);
       controls.target.lerpVectors(startTarget, targetLookAt, eased);
       controls.update();
-      
-      if (animationProgress < 1) {
-        if (isAutoTour) {
-          this.activeAutoTourAnimationId = requestAnimationFrame(animateCamera);
-        } else {
-          requestAnimationFrame(animateCamera);
-        }
+
+      if (progress < 1) {
+        animationId = requestAnimationFrame(animateCamera);
       } else {
-        if (isAutoTour) {
-          this.activeAutoTourAnimationId = null;
-        }
-        if (onComplete) {
-          onComplete();
-        }
+        finish();
+        onComplete?.();
       }
     };
-    
-    if (isAutoTour) {
-      // Only stop camera animations, not circular motion, before starting new camera animation
-      if (this.activeAutoTourAnimationId !== null) {
-        cancelAnimationFrame(this.activeAutoTourAnimationId);
-        this.activeAutoTourAnimationId = null;
-      }
-      this.activeAutoTourAnimationId = requestAnimationFrame(animateCamera);
-    } else {
-      animateCamera();
+
+    if (cancelOnUserInput) {
+      controls.addEventListener('start', handleUserInput);
     }
+    this.activeAnimation = handle;
+    animationId = requestAnimationFrame(animateCamera);
+
+    return handle;
   }
 
   /**
-   * Perform circular camera motion around Y-axis using AUTO_TOUR_POSITIONS
-   * Rotates around the point where camera-to-target vector intersects y=0 plane
+   * Compute a camera position that frames a bounding box.
+   * The distance fits the box's bounding sphere into the camera's field of view;
+   * the angle keeps the current horizontal viewing direction and looks down at polarAngle.
    */
-  static performCircularMotion(
+  static computeFramingPosition(
     camera: THREE.Camera,
     controls: OrbitControls,
-    duration: number = 3000,
-    onComplete?: () => void,
-    areaId?: string
-  ): void {
-    console.log(`🔄 Starting Y-axis circular motion for area: ${areaId}`);
-    
-    // Get the original AUTO_TOUR_POSITIONS for this area
-    const originalPosition = areaId ? this.AUTO_TOUR_POSITIONS[areaId] : null;
-    if (!originalPosition) {
-      console.error(`No AUTO_TOUR_POSITIONS found for area: ${areaId}`);
-      if (onComplete) onComplete();
-      return;
+    box: THREE.Box3,
+    options: FramingOptions = {}
+  ): CameraPosition {
+    const { padding = 1.4, polarAngle = 50 } = options;
+
+    const center = box.getCenter(new THREE.Vector3());
+    const radius = Math.max(box.getBoundingSphere(new THREE.Sphere()).radius, 0.01);
+
+    // Fit the bounding sphere into the narrower of the vertical/horizontal FOV
+    let distance = radius * 3;
+    if (camera instanceof THREE.PerspectiveCamera) {
+      const verticalFov = THREE.MathUtils.degToRad(camera.fov);
+      const horizontalFov = 2 * Math.atan(Math.tan(verticalFov / 2) * camera.aspect);
+      distance = radius / Math.sin(Math.min(verticalFov, horizontalFov) / 2);
     }
-    
-    // Use original camera and target positions from AUTO_TOUR_POSITIONS
-    const cameraPos = new THREE.Vector3(originalPosition.x, originalPosition.y, originalPosition.z);
-    const targetPos = new THREE.Vector3(originalPosition.targetX, originalPosition.targetY, originalPosition.targetZ);
-    
-    // Calculate where the camera-to-target vector intersects the y=0 plane
-    const direction = targetPos.clone().sub(cameraPos).normalize();
-    const t = -cameraPos.y / direction.y; // Solve for intersection with y=0 plane
-    const rotationCenter = cameraPos.clone().add(direction.multiplyScalar(t));
-    rotationCenter.y = 0; // Ensure it's on the ground plane
-    
-    // Calculate radius from camera position to rotation center (only X and Z)
-    const centerToCameraVector = cameraPos.clone().sub(rotationCenter);
-    const radius = Math.sqrt(centerToCameraVector.x * centerToCameraVector.x + centerToCameraVector.z * centerToCameraVector.z);
-    const cameraHeight = cameraPos.y;
-    
-    // Calculate initial angle
-    const initialAngle = Math.atan2(centerToCameraVector.x, centerToCameraVector.z);
-    
-    console.log('📍 Y-axis rotation setup:', {
-      originalCamera: cameraPos,
-      originalTarget: targetPos,
-      rotationCenter: rotationCenter,
-      radius: radius.toFixed(2),
-      cameraHeight: cameraHeight.toFixed(2),
-      initialAngle: (initialAngle * 180 / Math.PI).toFixed(1) + '°'
-    });
-    
-    // Temporarily disable controls during circular motion
-    const controlsWereEnabled = controls.enabled;
-    controls.enabled = false;
-    
-    const startTime = Date.now();
-    
-    const circularMotion = () => {
-      // Check if auto-tour circular motion was stopped
-      if (this.activeAutoTourMotionId === null) {
-        console.log('🌀 Auto-tour circular motion was stopped');
-        // Re-enable controls if they were disabled
-        controls.enabled = controlsWereEnabled;
-        controls.update();
-        return;
-      }
-      
-      const elapsed = Date.now() - startTime;
-      const progress = Math.min(elapsed / duration, 1);
-      
-      if (progress < 1) {
-        // Calculate current angle for 360-degree Y-axis rotation with constant velocity
-        const currentAngle = initialAngle + (Math.PI * 2 * progress);
-        
-        // Calculate new camera position rotating around Y-axis
-        const newCameraX = rotationCenter.x + Math.sin(currentAngle) * radius;
-        const newCameraZ = rotationCenter.z + Math.cos(currentAngle) * radius;
-        
-        // Update camera position (maintain original height)
-        camera.position.set(newCameraX, cameraHeight, newCameraZ);
-        
-        // Always look at the original target position
-        camera.lookAt(targetPos);
-        controls.target.copy(targetPos);
-        
-        // // Log progress every 10%
-        // if (Math.floor(progress * 10) !== Math.floor((progress - 0.1) * 10)) {
-        //   console.log(`🔄 Y-axis rotation progress: ${Math.floor(progress * 100)}%`);
-        // }
-        
-        this.activeAutoTourMotionId = requestAnimationFrame(circularMotion);
-      } else {
-        console.log('✅ Y-axis rotation complete');
-        
-        this.activeAutoTourMotionId = null;
-        
-        // Re-enable controls and ensure target is set correctly
-        controls.enabled = controlsWereEnabled;
-        controls.target.copy(targetPos);
-        controls.update();
-        
-        if (onComplete) {
-          setTimeout(onComplete, 50); // Reduced delay before next transition
-        }
-      }
+    distance = THREE.MathUtils.clamp(distance * padding, controls.minDistance, controls.maxDistance);
+
+    // Keep looking from the same side, unless an azimuth is given
+    const currentOffset = camera.position.clone().sub(controls.target);
+    const azimuth = options.azimuth !== undefined
+      ? THREE.MathUtils.degToRad(options.azimuth)
+      : Math.atan2(currentOffset.x, currentOffset.z);
+    const polar = THREE.MathUtils.degToRad(polarAngle);
+
+    const offset = new THREE.Vector3().setFromSphericalCoords(distance, polar, azimuth);
+    const cameraPosition = center.clone().add(offset);
+
+    return {
+      x: cameraPosition.x,
+      y: cameraPosition.y,
+      z: cameraPosition.z,
+      targetX: center.x,
+      targetY: center.y,
+      targetZ: center.z
     };
-    
-    // Only stop camera animations, not circular motion, before starting circular motion
-    if (this.activeAutoTourAnimationId !== null) {
-      cancelAnimationFrame(this.activeAutoTourAnimationId);
-      this.activeAutoTourAnimationId = null;
-    }
-    this.activeAutoTourMotionId = requestAnimationFrame(circularMotion);
   }
 
   /**
-   * Focus camera on area - only for all_in_one model auto-tour
+   * Animate the camera to frame an object or bounding box (e.g. a booth mesh)
    */
-  static focusCameraOnArea(
-    areaId: string,
-    controls: OrbitControls,
+  static frameObject(
     camera: THREE.Camera,
-    isAutoTour: boolean = false,
-    onAutoTourComplete?: () => void,
-    currentModelArea?: string
-  ): void {
-    // Only allow camera positioning for auto-tour on all_in_one model
-    if (!isAutoTour) {
-      console.log(`📹 Camera positioning disabled for non-auto-tour: ${areaId}`);
-      return;
-    }
-    
-    if (currentModelArea !== 'all_in_one') {
-      console.log(`📹 Auto-tour only available on all_in_one model, current model: ${currentModelArea}`);
-      return;
+    controls: OrbitControls,
+    target: THREE.Object3D | THREE.Box3,
+    options: FramingOptions & CameraAnimationOptions = {}
+  ): CameraAnimationHandle {
+    let box: THREE.Box3;
+    if (target instanceof THREE.Box3) {
+      box = target;
+    } else {
+      target.updateMatrixWorld(true);
+      box = new THREE.Box3().setFromObject(target);
     }
-    
-    const duration = isAutoTour ? 4000 : 1000; // Twice slower animation for auto-tour
-    
-    const onAnimationComplete = () => {
-      if (isAutoTour && onAutoTourComplete) {
-        // Add 360-degree rotation for hall positions B, C, E (not for overview)
-        if (areaId === 'B' || areaId === 'C' || areaId === 'E') {
-          this.performCircularMotion(camera, controls, 10000, onAutoTourComplete, areaId); // 10 seconds for full rotation
-        } else {
-          // For 'all_in_one' overview, just pause briefly before next transition
-          setTimeout(onAutoTourComplete, 100); // Brief pause at overview
-        }
-      }
-    };
-    
-    this.animateCameraToPosition(camera, controls, areaId, duration, isAutoTour, onAnimationComplete);
+
+    const position = this.computeFramingPosition(camera, controls, box, options);
+    console.log(`📹 Framing ${target instanceof THREE.Box3 ? 'box' : target.name || 'object'}:`, position);
+
+    return this.animateCameraTo(camera, controls, position, { duration: 1200, easing: 'easeInOutCubic', ...options });
   }
 
   /**
-   * Get the next hall in the auto-tour sequence
+   * Cancel the running (non auto-tour) camera animation, if any
    */
-  static getNextAutoTourHall(currentIndex: number): { hall: string; nextIndex: number } {
-    const nextIndex = (currentIndex + 1) % this.AUTO_TOUR_HALLS.length;
-    return {
-      hall: this.AUTO_TOUR_HALLS[currentIndex],
-      nextIndex: nextIndex
-    };
+  static cancelActiveAnimation(): void {
+    this.activeAnimation?.cancel();
   }
 
   /**
@@ -324,7 +214,7 @@ export class CameraAnimator {
     controls: OrbitControls,
     areaId: string
   ): boolean {
-    const position = this.STARTING_POSITIONS[areaId];
+    const position = this.getStartingPosition(areaId);
     
     if (!position) {
       console.warn(`No starting position defined for area: ${areaId}`);
@@ -333,18 +223,46 @@ export class CameraAnimator {
     
     console.log(`📹 Setting starting camera position for ${areaId}:`, position);
     
-    // Set camera position and target immediately without animation
+    this.setCameraPosition(camera, controls, position);
+    return true;
+  }
+
+  /**
+   * Set camera position and target immediately without animation
+   */
+  static setCameraPosition(camera: THREE.Camera, controls: OrbitControls, position: CameraPosition): void {
     camera.position.set(position.x, position.y, position.z);
     controls.target.set(position.targetX, position.targetY, position.targetZ);
     controls.update();
-    
-    return true;
   }
 
   /**
-   * Check if camera positioning should be skipped for an area - now skips everything except auto-tour
+   * Get the current camera position and target
+   */
+  static getCurrentPosition(camera: THREE.Camera, controls: OrbitControls): CameraPosition {
+    return {
+      x: camera.position.x,
+      y: camera.position.y,
+      z: camera.position.z,
+      targetX: controls.target.x,
+      targetY: controls.target.y,
+      targetZ: controls.target.z
+    };
+  }
+
+  /**
+   * Check if two camera positions are (almost) the same
+   */
+  static isSamePosition(a: CameraPosition, b: CameraPosition, tolerance: number = 0.01): boolean {
+    return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z) < tolerance
+      && Math.hypot(a.targetX - b.targetX, a.targetY - b.targetY, a.targetZ - b.targetZ) < tolerance;
+  }
+
+  /**
+   * Check if the camera is (almost) at a given position
    */
-  static shouldSkipCameraPositioning(areaId: string, isAutoTour: boolean): boolean {
-    return !isAutoTour; // Skip all camera animations except auto-tour
+  static isAtPosition(camera: THREE.Camera, controls: OrbitControls, position: CameraPosition, tolerance: number = 0.01): boolean {
+    return camera.position.distanceTo(new THREE.Vector3(position.x, position.y, position.z)) < tolerance
+      && controls.target.distanceTo(new THREE.Vector3(position.targetX, position.targetY, position.targetZ)) < tolerance;
   }
 }
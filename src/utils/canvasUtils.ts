@@ -23,6 +23,11 @@ export interface TextConfig extends CanvasBaseConfig {
   lineHeight?: number;
 }
 
+export interface LogoTextConfig extends TextConfig {
+  logo: HTMLImageElement;
+  logoHeight: number;
+}
+
 export interface MultiLineTextConfig extends CanvasBaseConfig {
   lines: string[];
   titleFontSize: number;
@@ -37,6 +42,7 @@ export interface BoothCalloutConfig extends CanvasBaseConfig {
   boothId: string;
   area: string;
   dimensions: string;
+  price?: string; // Optional third row
   titleFontSize: number;
   contentFontSize: number;
   fontFamily: string;
@@ -67,6 +73,40 @@ export class CanvasTextRenderer {
     return { canvas, ctx, pixelRatio };
   }
 
+  /**
+   * Splits text into lines that fit the given width (using the current font)
+   */
+  private static wrapText(
+    ctx: CanvasRenderingContext2D,
+    text: string,
+    maxLineWidth: number
+  ): { lines: string[]; maxTextWidth: number } {
+    const words = text.split(' ');
+    const lines: string[] = [];
+    let currentLine = words[0] || '';
+    
+    for (let i = 1; i < words.length; i++) {
+      const testLine = currentLine + ' ' + words[i];
+      const metrics = ctx.measureText(testLine);
+      
+      if (metrics.width > maxLineWidth) {
+        lines.push(currentLine);
+        currentLine = words[i];
+      } else {
+        currentLine = testLine;
+      }
+    }
+    lines.push(currentLine);
+    
+    let maxTextWidth = 0;
+    lines.forEach(line => {
+      const metrics = ctx.measureText(line);
+      maxTextWidth = Math.max(maxTextWidth, metrics.width);
+    });
+    
+    return { lines, maxTextWidth };
+  }
+
   /**
    * Draws background with gradient support
    */
@@ -181,29 +221,7 @@ export class CanvasTextRenderer {
     ctx.font = `${scaledFontSize}px ${fontFamily}`;
     
     // Split text into lines if needed
-    const words = text.split(' ');
-    const lines: string[] = [];
-    let currentLine = words[0] || '';
-    
-    for (let i = 1; i < words.length; i++) {
-      const testLine = currentLine + ' ' + words[i];
-      const metrics = ctx.measureText(testLine);
-      
-      if (metrics.width > maxWidth * pixelRatio - scaledPadding * 2) {
-        lines.push(currentLine);
-        currentLine = words[i];
-      } else {
-        currentLine = testLine;
-      }
-    }
-    lines.push(currentLine);
-    
-    // Calculate canvas dimensions
-    let maxTextWidth = 0;
-    lines.forEach(line => {
-      const metrics = ctx.measureText(line);
-      maxTextWidth = Math.max(maxTextWidth, metrics.width);
-    });
+    const { lines, maxTextWidth } = this.wrapText(ctx, text, maxWidth * pixelRatio - scaledPadding * 2);
     
     const textHeight = scaledFontSize * lineHeight;
     const totalTextHeight = textHeight * lines.length;
@@ -252,6 +270,88 @@ export class CanvasTextRenderer {
     return canvas;
   }
 
+  /**
+   * Creates a text canvas with a logo image above the (wrapped) text
+   */
+  public static createLogoTextCanvas(config: LogoTextConfig): HTMLCanvasElement {
+    const { canvas, ctx, pixelRatio } = this.setupCanvas();
+    
+    const {
+      text,
+      logo,
+      logoHeight,
+      fontSize,
+      fontFamily,
+      color,
+      maxWidth = 400,
+      lineHeight = 1.2,
+      padding,
+      borderWidth = 0
+    } = config;
+    
+    // Configure high DPI canvas
+    const scaledFontSize = fontSize * pixelRatio;
+    const scaledPadding = padding * pixelRatio;
+    const scaledBorderWidth = borderWidth * pixelRatio;
+    const maxContentWidth = maxWidth * pixelRatio - scaledPadding * 2;
+    
+    // Logo keeps its aspect ratio and never gets wider than the content
+    const logoAspect = logo.width / logo.height;
+    let scaledLogoHeight = logoHeight * pixelRatio;
+    let scaledLogoWidth = scaledLogoHeight * logoAspect;
+    if (scaledLogoWidth > maxContentWidth) {
+      scaledLogoWidth = maxContentWidth;
+      scaledLogoHeight = scaledLogoWidth / logoAspect;
+    }
+    
+    ctx.font = `${scaledFontSize}px ${fontFamily}`;
+    const { lines, maxTextWidth } = this.wrapText(ctx, text, maxContentWidth);
+    
+    const textHeight = scaledFontSize * lineHeight;
+    const totalTextHeight = textHeight * lines.length;
+    const spacing = scaledPadding;
+    
+    const canvasWidth = Math.max(Math.max(maxTextWidth, scaledLogoWidth) + scaledPadding * 2 + scaledBorderWidth * 2, 64);
+    const canvasHeight = Math.max(scaledLogoHeight + spacing + totalTextHeight + scaledPadding * 2 + scaledBorderWidth * 2, 32);
+    
+    // Set canvas size
+    canvas.width = canvasWidth;
+    canvas.height = canvasHeight;
+    
+    // Draw background
+    this.drawBackground(ctx, config, { width: canvasWidth, height: canvasHeight }, pixelRatio);
+    
+    // Draw border
+    this.drawBorder(ctx, config, { width: canvasWidth, height: canvasHeight }, pixelRatio);
+    
+    // Draw logo centered at the top
+    const logoY = scaledPadding + scaledBorderWidth;
+    ctx.drawImage(logo, (canvasWidth - scaledLogoWidth) / 2, logoY, scaledLogoWidth, scaledLogoHeight);
+    
+    // Draw shadow if specified
+    if (config.shadow) {
+      ctx.save();
+      this.setupShadow(ctx, config.shadow, pixelRatio);
+    }
+    
+    // Draw text below the logo
+    ctx.font = `${scaledFontSize}px ${fontFamily}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = color;
+    
+    const startY = logoY + scaledLogoHeight + spacing + textHeight / 2;
+    lines.forEach((line, index) => {
+      ctx.fillText(line, canvasWidth / 2, startY + index * textHeight);
+    });
+    
+    if (config.shadow) {
+      ctx.restore();
+    }
+    
+    return canvas;
+  }
+
   /**
    * Creates a multi-line text canvas with different font sizes for title and content
    */
@@ -362,6 +462,7 @@ export class CanvasTextRenderer {
       boothId,
       area,
       dimensions,
+      price,
       titleFontSize,
       contentFontSize,
       fontFamily,
@@ -388,6 +489,7 @@ export class CanvasTextRenderer {
     ctx.font = `${scaledContentFontSize}px ${fontFamily}`;
     const areaMetrics = ctx.measureText(area);
     const dimensionsMetrics = ctx.measureText(dimensions);
+    const priceWidth = price ? ctx.measureText(price).width : 0;
     
     const areaWidth = areaMetrics.width;
     const dimensionsWidth = dimensionsMetrics.width;
@@ -396,11 +498,12 @@ export class CanvasTextRenderer {
     // Calculate layout
     const spacing = scaledPadding * 0.5;
     const areaBoxPadding = scaledPadding * 0.3;
-    const maxTextWidth = Math.max(titleWidth, areaWidth + spacing + dimensionsWidth + areaBoxPadding * 2);
+    const maxTextWidth = Math.max(titleWidth, areaWidth + spacing + dimensionsWidth + areaBoxPadding * 2, priceWidth);
+    const priceRowHeight = price ? contentHeight + spacing : 0;
     
     // Canvas dimensions
     const canvasWidth = Math.max(maxTextWidth + scaledPadding * 2 + scaledBorderWidth * 2, 64);
-    const canvasHeight = Math.max(titleHeight + contentHeight + spacing + scaledPadding * 2 + scaledBorderWidth * 2, 32);
+    const canvasHeight = Math.max(titleHeight + contentHeight + spacing + priceRowHeight + scaledPadding * 2 + scaledBorderWidth * 2, 32);
     
     // Set canvas size
     canvas.width = canvasWidth;
@@ -450,6 +553,11 @@ export class CanvasTextRenderer {
     const dimensionsX = areaBoxX + areaBoxWidth + spacing + dimensionsWidth / 2;
     ctx.fillText(dimensions, dimensionsX, secondRowY);
     
+    // Draw price on its own row
+    if (price) {
+      ctx.fillText(price, canvasWidth / 2, secondRowY + contentHeight + spacing);
+    }
+    
     if (config.shadow) {
       ctx.restore();
     }
@@ -0,0 +1,22 @@
+import { BoothChangeDetector } from './changeUtils';
+import { makeBooth } from './testFixtures';
+
+const booth = (id, status, name = '') => makeBooth(id, { status, name });
+
+test('reports status changes between snapshots', () => {
+  const changes = BoothChangeDetector.diff(
+    [booth('B-2050', 'available'), booth('B-2060', 'sold', 'Equinor'), booth('B-2070', 'reserved', 'Aker')],
+    [booth('B-2050', 'reserved', 'Fjordkraft'), booth('B-2060', 'sold', 'Equinor'), booth('B-2070', 'available'), booth('B-2080', 'sold')],
+    1000
+  );
+
+  expect(changes.map(change => [change.boothId, change.previousStatus, change.status])).toEqual([
+    ['B-2050', 'available', 'reserved'],
+    ['B-2070', 'reserved', 'available']
+  ]);
+  expect(changes[1].id).toBeGreaterThan(changes[0].id);
+  expect(changes.map(change => BoothChangeDetector.describe(change))).toEqual([
+    'B-2050 reserved by Fjordkraft',
+    'B-2070 is available again'
+  ]);
+});
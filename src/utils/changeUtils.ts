@@ -0,0 +1,47 @@
+import { Booth, BoothStatusChange } from '../types/booth';
+import { getStatusStyle } from '../config/statusTheme';
+
+/**
+ * Utility class for detecting booth status changes between data snapshots
+ */
+export class BoothChangeDetector {
+  private static nextChangeId = 1;
+
+  /**
+   * Compare two snapshots of the same event and list booths whose status changed.
+   * Booths that appear or disappear are not reported.
+   */
+  static diff(previous: Booth[], next: Booth[], changedAt: number = Date.now()): BoothStatusChange[] {
+    const previousById = new Map(previous.map(booth => [booth.id, booth]));
+    const changes: BoothStatusChange[] = [];
+
+    next.forEach(booth => {
+      const before = previousById.get(booth.id);
+      if (before && before.status !== booth.status) {
+        changes.push({
+          id: this.nextChangeId++,
+          boothId: booth.id,
+          name: booth.name,
+          previousStatus: before.status,
+          status: booth.status,
+          changedAt
+        });
+      }
+    });
+
+    return changes;
+  }
+
+  /**
+   * Human readable description, e.g. "B-2050 reserved by Fjordkraft"
+   */
+  static describe(change: BoothStatusChange): string {
+    const style = getStatusStyle(change.status);
+    if (style.forSale) {
+      return `${change.boothId} is available again`;
+    }
+
+    const exhibitor = change.name && change.name.trim() !== '' ? ` by ${change.name}` : '';
+    return `${change.boothId} ${style.label.toLowerCase()}${exhibitor}`;
+  }
+}
@@ -0,0 +1,91 @@
+import * as THREE from 'three';
+
+/**
+ * Utility class for short-lived visual effects in the scene
+ */
+export class SceneEffects {
+  /**
+   * Burst of confetti particles above a mesh; removes and disposes itself when done
+   */
+  static playConfetti(
+    scene: THREE.Scene,
+    mesh: THREE.Mesh,
+    colors: number[],
+    duration: number = 1600,
+    particleCount: number = 80
+  ): void {
+    mesh.updateMatrixWorld(true);
+    const box = new THREE.Box3().setFromObject(mesh);
+    const origin = box.getCenter(new THREE.Vector3());
+    origin.y = box.max.y;
+
+    // Burst size follows the booth size so it reads the same in every hall
+    const size = box.getSize(new THREE.Vector3());
+    const speed = Math.max(size.x, size.z) * 1.5;
+    const gravity = speed * 2;
+
+    const positions = new Float32Array(particleCount * 3);
+    const particleColors = new Float32Array(particleCount * 3);
+    const velocities: THREE.Vector3[] = [];
+    const color = new THREE.Color();
+
+    for (let i = 0; i < particleCount; i++) {
+      positions.set([origin.x, origin.y, origin.z], i * 3);
+      color.setHex(colors[i % colors.length]);
+      particleColors.set([color.r, color.g, color.b], i * 3);
+
+      // Upward cone with random spread
+      const angle = Math.random() * Math.PI * 2;
+      const outward = Math.random() * 0.6;
+      velocities.push(new THREE.Vector3(
+        Math.cos(angle) * outward,
+        0.8 + Math.random() * 0.6,
+        Math.sin(angle) * outward
+      ).multiplyScalar(speed));
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(particleColors, 3));
+
+    const material = new THREE.PointsMaterial({
+      size: Math.max(size.x, size.z) * 0.08,
+      vertexColors: true,
+      transparent: true,
+      depthWrite: false
+    });
+
+    const points = new THREE.Points(geometry, material);
+    points.raycast = () => {}; // Never intercept clicks
+    scene.add(points);
+
+    const startTime = Date.now();
+    let lastTime = startTime;
+
+    const animate = () => {
+      const now = Date.now();
+      const delta = (now - lastTime) / 1000;
+      const progress = Math.min((now - startTime) / duration, 1);
+      lastTime = now;
+
+      velocities.forEach((velocity, i) => {
+        velocity.y -= gravity * delta;
+        positions[i * 3] += velocity.x * delta;
+        positions[i * 3 + 1] += velocity.y * delta;
+        positions[i * 3 + 2] += velocity.z * delta;
+      });
+      geometry.attributes.position.needsUpdate = true;
+      material.opacity = 1 - progress * progress;
+
+      if (progress < 1) {
+        requestAnimationFrame(animate);
+      } else {
+        scene.remove(points);
+        geometry.dispose();
+        material.dispose();
+      }
+    };
+
+    requestAnimationFrame(animate);
+  }
+}
@@ -0,0 +1,86 @@
+import * as THREE from 'three';
+
+/**
+ * Utility class for loading exhibitor logos and placing them on booth meshes
+ */
+export class LogoManager {
+  // One load per URL; resolves to null when the image fails or is blocked by CORS
+  private static cache = new Map<string, Promise<HTMLImageElement | null>>();
+
+  /**
+   * Load a logo image, cached by URL.
+   * Images are requested with CORS so they can be drawn into canvas textures;
+   * hosts without CORS headers fail here and callers fall back to text.
+   */
+  static load(url: string): Promise<HTMLImageElement | null> {
+    const cached = this.cache.get(url);
+    if (cached) return cached;
+
+    const promise = new Promise<HTMLImageElement | null>(resolve => {
+      const image = new Image();
+      image.crossOrigin = 'anonymous';
+      image.onload = () => resolve(image);
+      image.onerror = () => {
+        console.warn(`⚠️ Could not load logo ${url} (missing or CORS-blocked), using text instead`);
+        resolve(null);
+      };
+      image.src = url;
+    });
+
+    this.cache.set(url, promise);
+    return promise;
+  }
+
+  /**
+   * Create a flat logo plane lying on the top face of a booth mesh
+   */
+  static createLogoDecal(mesh: THREE.Mesh, image: HTMLImageElement, fill: number = 0.8): THREE.Mesh {
+    mesh.updateMatrixWorld(true);
+    const box = new THREE.Box3().setFromObject(mesh);
+    const size = box.getSize(new THREE.Vector3());
+    const center = box.getCenter(new THREE.Vector3());
+
+    // Fit the logo inside the booth footprint while keeping its aspect ratio
+    const imageAspect = image.width / image.height;
+    let width = size.x * fill;
+    let depth = width / imageAspect;
+    if (depth > size.z * fill) {
+      depth = size.z * fill;
+      width = depth * imageAspect;
+    }
+
+    const texture = new THREE.Texture(image);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.needsUpdate = true;
+
+    const material = new THREE.MeshBasicMaterial({
+      map: texture,
+      transparent: true,
+      depthWrite: false,
+      polygonOffset: true,
+      polygonOffsetFactor: -1
+    });
+
+    const decal = new THREE.Mesh(new THREE.PlaneGeometry(width, depth), material);
+    decal.rotation.x = -Math.PI / 2;
+    decal.position.set(center.x, box.max.y + 0.01, center.z);
+    decal.userData.isLogoDecal = true;
+    decal.raycast = () => {}; // Clicks go through to the booth mesh below
+
+    return decal;
+  }
+
+  /**
+   * Remove logo decals from the scene and dispose their resources
+   */
+  static clearLogoDecals(scene: THREE.Scene, decals: THREE.Mesh[]): void {
+    decals.forEach(decal => {
+      scene.remove(decal);
+      decal.geometry.dispose();
+      const material = decal.material as THREE.MeshBasicMaterial;
+      material.map?.dispose();
+      material.dispose();
+    });
+    decals.length = 0;
+  }
+}
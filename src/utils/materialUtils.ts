@@ -1,5 +1,6 @@
 import * as THREE from 'three';
-import { Booth } from '../types/booth';
+import { Booth, BoothStatus, StatusFilter } from '../types/booth';
+import { getDisplayStatus, getStatusStyle, toCssColor } from '../config/statusTheme';
 
 /**
  * Utility class for managing THREE.js material operations, particularly for booth coloring
@@ -34,17 +35,14 @@ export class MaterialManager {
    * Get the standard color for a booth status
    */
   static getStatusColor(status: string): number {
-    switch (status?.toLowerCase()) {
-      case 'sold':
-        return 0x659C3E; // Green (#659C3E)
-      case 'reserved':
-        return 0x659C3E; // Green (#659C3E) - same as sold
-      case 'available':
-        return 0x0430A9; // Blue (#0430A9)
-      case 'nil':
-      default:
-        return 0x0430A9; // Blue (#0430A9) - default for booths without entry
-    }
+    return getStatusStyle(status?.toLowerCase()).color;
+  }
+
+  /**
+   * Get the status color as a CSS color string, for HTML overlays matching the scene
+   */
+  static getStatusCssColor(status: string): string {
+    return toCssColor(this.getStatusColor(status));
   }
 
   /**
@@ -83,7 +81,7 @@ export class MaterialManager {
   static applyDefaultColorsToUnmappedMeshes(
     scene: THREE.Scene,
     meshMap: Map<THREE.Mesh, Booth>,
-    defaultColor: number = 0x0430A9 // Blue for available
+    defaultColor: number = getStatusStyle('available').color
   ): void {
     scene.traverse((object) => {
       if (object instanceof THREE.Mesh && object.name) {
@@ -94,7 +92,7 @@ export class MaterialManager {
             this.applyColorToMesh(object, defaultColor);
             object.userData._status = 'available';
             
-            console.log(`    Applied available blue color to unmapped booth mesh ${object.name}`);
+            console.log(`    Applied available color to unmapped booth mesh ${object.name}`);
           }
         }
       }
@@ -155,14 +153,126 @@ export class MaterialManager {
     }
   }
 
+  /**
+   * Pulse a mesh's highlight a few times (e.g. to point out a search result)
+   */
+  static pulseHighlight(
+    mesh: THREE.Mesh,
+    glowColor: number,
+    duration: number = 2400,
+    pulses: number = 3
+  ): void {
+    // Restart a pulse that is still running on this mesh
+    if (mesh.userData._pulseAnimationId !== undefined) {
+      cancelAnimationFrame(mesh.userData._pulseAnimationId);
+      this.removeHoverEffect(mesh);
+    }
+
+    this.applyHoverEffect(mesh, glowColor, 0);
+    mesh.userData._pulsing = true;
+
+    const material = (Array.isArray(mesh.material) ? mesh.material[0] : mesh.material) as THREE.MeshStandardMaterial;
+    const startTime = Date.now();
+
+    const pulse = () => {
+      const progress = Math.min((Date.now() - startTime) / duration, 1);
+
+      if (progress < 1) {
+        // Intensity goes 0 → 1 → 0 once per pulse
+        material.emissiveIntensity = Math.sin(progress * pulses * Math.PI) ** 2;
+        mesh.userData._pulseAnimationId = requestAnimationFrame(pulse);
+      } else {
+        this.removeHoverEffect(mesh);
+        delete mesh.userData._pulseAnimationId;
+        mesh.userData._pulsing = false;
+      }
+    };
+
+    mesh.userData._pulseAnimationId = requestAnimationFrame(pulse);
+  }
+
+  /**
+   * Fade a mesh's color from one color to another (e.g. when its booth status changes)
+   */
+  static animateColorTransition(
+    mesh: THREE.Mesh,
+    fromColor: number,
+    toColor: number,
+    duration: number = 1000,
+    onComplete?: () => void
+  ): void {
+    this.cloneMaterialIfNeeded(mesh);
+    const material = (Array.isArray(mesh.material) ? mesh.material[0] : mesh.material) as THREE.MeshStandardMaterial;
+    if (!material || !('color' in material)) return;
+
+    if (mesh.userData._colorAnimationId !== undefined) {
+      cancelAnimationFrame(mesh.userData._colorAnimationId);
+    }
+
+    const from = new THREE.Color(fromColor);
+    const to = new THREE.Color(toColor);
+    const startTime = Date.now();
+
+    const step = () => {
+      const progress = Math.min((Date.now() - startTime) / duration, 1);
+      material.color.copy(from).lerp(to, progress);
+
+      if (progress < 1) {
+        mesh.userData._colorAnimationId = requestAnimationFrame(step);
+      } else {
+        delete mesh.userData._colorAnimationId;
+        mesh.userData._statusColor = toColor;
+        onComplete?.();
+      }
+    };
+
+    step();
+  }
+
+  /**
+   * Check whether a booth status passes a status filter (booths without data pass as available)
+   */
+  static matchesStatusFilter(status: string, filter: StatusFilter | null): boolean {
+    const displayStatus = getDisplayStatus(status as BoothStatus);
+    return !filter || filter.statuses.length === 0 || filter.statuses.some(s => s === displayStatus);
+  }
+
+  /**
+   * Show, dim or hide an object (booth mesh, callout sprite, logo decal) for the status filter
+   */
+  static applyFilterVisibility(
+    object: THREE.Mesh | THREE.Sprite,
+    matches: boolean,
+    mode: StatusFilter['mode'],
+    dimOpacity: number = 0.15
+  ): void {
+    // Booth meshes may still share materials with other meshes of the model
+    if (object instanceof THREE.Mesh) {
+      this.cloneMaterialIfNeeded(object);
+    }
+
+    if (!Array.isArray(object.material)) {
+      const material = object.material;
+
+      // Remember the original transparency once so it can be restored
+      if (object.userData._origOpacity === undefined) {
+        object.userData._origOpacity = material.opacity;
+        object.userData._origTransparent = material.transparent;
+      }
+
+      const dimmed = !matches && mode === 'dim';
+      material.transparent = dimmed || object.userData._origTransparent;
+      material.opacity = dimmed ? dimOpacity : object.userData._origOpacity;
+    }
+
+    object.visible = matches || mode !== 'hide';
+    object.userData._filteredOut = !matches;
+  }
+
   /**
    * Get hover glow color based on booth status
    */
   static getHoverGlowColor(status: string): number {
-    if (status === 'sold' || status === 'reserved') {
-      return 0x659C3E; // Green glow for sold/reserved
-    } else {
-      return 0x0430A9; // Blue glow for available
-    }
+    return getStatusStyle(status).glowColor;
   }
 }
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { MeshDebugManager } from './meshDebugUtils';
+
+test('exports one CSV row per booth/mesh pair', () => {
+  const csv = MeshDebugManager.createCsvExport({
+    matches: [{ boothId: 'B-1', meshName: 'BOOTHLAYER_curve_.B-1', method: 'name' }],
+    unmappedBoothIds: ['B-2', 'C-1'],
+    ambiguousBooths: [{ boothId: 'C-1', meshNames: ['C-1 wall', 'C-1, roof'] }],
+    orphanMeshNames: ['BOOTHLAYER_curve_.B-99'],
+    missingManifestMeshes: []
+  });
+
+  expect(csv.split('\n')).toEqual([
+    'result,boothId,meshName,detail',
+    'matched,B-1,BOOTHLAYER_curve_.B-1,name',
+    'ambiguous,C-1,C-1 wall,',
+    'ambiguous,C-1,"C-1, roof",',
+    'no-mesh,B-2,,',
+    'orphan-mesh,,BOOTHLAYER_curve_.B-99,'
+  ]);
+});
@@ -0,0 +1,145 @@
+import * as THREE from 'three';
+import { Booth } from '../types/booth';
+import { MeshMappingReport } from '../types/dataQuality';
+import { CanvasTextRenderer } from './canvasUtils';
+import { CalloutManager } from './calloutUtils';
+import { MaterialManager } from './materialUtils';
+
+// Mapping state of a booth mesh in the debug view
+export type MeshDebugState = 'mapped' | 'ambiguous' | 'orphan';
+
+// Colors of the debug view; 'missing' marks sheet booths without a mesh, which are only listed in the panel
+export const MESH_DEBUG_COLORS: Record<MeshDebugState | 'missing', string> = {
+  mapped: '#66aaff',
+  ambiguous: '#ff9800',
+  orphan: '#e040fb',
+  missing: '#ff5252'
+};
+
+const LABEL_HEIGHT = 0.035; // Label height relative to the viewport; labels keep their size on screen
+
+const escapeCsv = (value: string): string => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Mesh mapping debug view for model authors, enabled with ?debug=meshes:
+ * labels booth meshes with their names, colors unmapped ones and exports the mapping report
+ */
+export class MeshDebugManager {
+  /**
+   * Check whether the debug view was requested in the URL
+   */
+  static isEnabled(): boolean {
+    return new URLSearchParams(window.location.search).get('debug') === 'meshes';
+  }
+
+  /**
+   * Get the mapping state of every booth mesh and every ambiguous candidate mesh in the model
+   */
+  static classifyMeshes(
+    root: THREE.Object3D,
+    meshMap: Map<THREE.Mesh, Booth>,
+    report: MeshMappingReport
+  ): Map<THREE.Mesh, MeshDebugState> {
+    const ambiguousNames = new Set(report.ambiguousBooths.flatMap(entry => entry.meshNames));
+    const states = new Map<THREE.Mesh, MeshDebugState>();
+
+    root.traverse((object) => {
+      if (!(object instanceof THREE.Mesh)) return;
+      if (meshMap.has(object)) {
+        states.set(object, 'mapped');
+      } else if (ambiguousNames.has(object.name)) {
+        states.set(object, 'ambiguous');
+      } else if (object.userData._interactive) {
+        states.set(object, 'orphan');
+      }
+    });
+
+    return states;
+  }
+
+  /**
+   * Color meshes without a booth by their state; mapped meshes keep their status colors
+   */
+  static applyDebugColors(states: Map<THREE.Mesh, MeshDebugState>): void {
+    states.forEach((state, mesh) => {
+      if (state !== 'mapped') {
+        MaterialManager.applyColorToMesh(mesh, new THREE.Color(MESH_DEBUG_COLORS[state]).getHex());
+      }
+    });
+  }
+
+  /**
+   * Create a label sprite above each classified mesh with its name (and booth ID when mapped)
+   */
+  static createMeshLabels(states: Map<THREE.Mesh, MeshDebugState>, meshMap: Map<THREE.Mesh, Booth>): THREE.Sprite[] {
+    return Array.from(states, ([mesh, state]) => {
+      const booth = meshMap.get(mesh);
+      const canvas = CanvasTextRenderer.createTextCanvas({
+        text: booth ? `${mesh.name} → ${booth.id}` : mesh.name || '(unnamed)',
+        fontSize: 12,
+        fontFamily: 'monospace',
+        color: 'white',
+        backgroundColor: 'rgba(0, 0, 0, 0.75)',
+        padding: 3,
+        borderRadius: 2,
+        borderColor: MESH_DEBUG_COLORS[state],
+        borderWidth: 1.5,
+        maxWidth: 320
+      });
+
+      const material = new THREE.SpriteMaterial({
+        map: new THREE.CanvasTexture(canvas),
+        transparent: true,
+        depthTest: false, // Readable through walls and roofs
+        sizeAttenuation: false
+      });
+      const sprite = new THREE.Sprite(material);
+      sprite.position.copy(CalloutManager.getMeshCenterPosition(mesh));
+      sprite.scale.set(LABEL_HEIGHT * (canvas.width / canvas.height), LABEL_HEIGHT, 1);
+      sprite.renderOrder = 1000;
+      return sprite;
+    });
+  }
+
+  /**
+   * Format the mapping report as JSON
+   */
+  static createJsonExport(report: MeshMappingReport, areaId: string): string {
+    return JSON.stringify({ areaId, exportedAt: new Date().toISOString(), ...report }, null, 2);
+  }
+
+  /**
+   * Format the mapping report as CSV with one row per booth/mesh pair
+   */
+  static createCsvExport(report: MeshMappingReport): string {
+    const missingManifestIds = new Set(report.missingManifestMeshes.map(entry => entry.boothId));
+    const ambiguousIds = new Set(report.ambiguousBooths.map(entry => entry.boothId));
+
+    const rows: string[][] = [
+      ['result', 'boothId', 'meshName', 'detail'],
+      ...report.matches.map(match => ['matched', match.boothId, match.meshName, match.method]),
+      ...report.ambiguousBooths.flatMap(({ boothId, meshNames }) =>
+        meshNames.map(meshName => ['ambiguous', boothId, meshName, ''])
+      ),
+      ...report.missingManifestMeshes.map(({ boothId, mesh }) => ['no-mesh', boothId, mesh, 'meshMapping entry not in model']),
+      ...report.unmappedBoothIds
+        .filter(boothId => !missingManifestIds.has(boothId) && !ambiguousIds.has(boothId))
+        .map(boothId => ['no-mesh', boothId, '', '']),
+      ...report.orphanMeshNames.map(meshName => ['orphan-mesh', '', meshName, ''])
+    ];
+
+    return rows.map(row => row.map(escapeCsv).join(',')).join('\n');
+  }
+
+  /**
+   * Save text as a file through the browser
+   */
+  static downloadFile(content: string, fileName: string, mimeType: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
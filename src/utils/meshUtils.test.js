@@ -0,0 +1,71 @@
+import * as THREE from 'three';
+import { MeshManager } from './meshUtils';
+import { makeBooth as booth } from './testFixtures';
+
+const sceneWith = (...names) => {
+  const scene = new THREE.Scene();
+  names.forEach(name => {
+    const mesh = new THREE.Mesh();
+    mesh.name = name;
+    mesh.userData._interactive = name.startsWith('BOOTHLAYER_curve_');
+    scene.add(mesh);
+  });
+  return scene;
+};
+
+const mappedNames = (meshMap) => {
+  const names = {};
+  meshMap.forEach((booth, mesh) => { names[booth.id] = mesh.name; });
+  return names;
+};
+
+test('matches booth IDs as whole tokens and reports ambiguous and orphan meshes', () => {
+  const scene = sceneWith('BOOTHLAYER_curve_.B-2050', 'Stand B-20 floor', 'C-1 wall', 'C-1 roof', 'BOOTHLAYER_curve_.B-99');
+  const meshMap = new Map();
+
+  const report = MeshManager.mapBoothMeshes(scene, [booth('B-2050'), booth('B-20'), booth('C-1'), booth('D-5')], meshMap);
+
+  expect(mappedNames(meshMap)).toEqual({ 'B-2050': 'BOOTHLAYER_curve_.B-2050', 'B-20': 'Stand B-20 floor' });
+  expect(report.ambiguousBooths).toEqual([{ boothId: 'C-1', meshNames: ['C-1 wall', 'C-1 roof'] }]);
+  expect(report.unmappedBoothIds).toEqual(['C-1', 'D-5']);
+  expect(report.orphanMeshNames).toEqual(['BOOTHLAYER_curve_.B-99']);
+});
+
+test('reports booths whose exact mesh name is shared by several meshes as ambiguous', () => {
+  const scene = sceneWith('BOOTHLAYER_curve_.E-1', 'BOOTHLAYER_curve_.E-1', 'BOOTHLAYER_curve_.E-2');
+  const meshMap = new Map();
+
+  const report = MeshManager.mapBoothMeshes(scene, [booth('E-1'), booth('E-2')], meshMap);
+
+  expect(mappedNames(meshMap)).toEqual({ 'E-2': 'BOOTHLAYER_curve_.E-2' });
+  expect(report.ambiguousBooths).toEqual([{ boothId: 'E-1', meshNames: ['BOOTHLAYER_curve_.E-1', 'BOOTHLAYER_curve_.E-1'] }]);
+});
+
+test('maps booths through the manifest by mesh name or UUID', () => {
+  const scene = sceneWith('Object_12', 'Object_13');
+  scene.children[1].userData.uuid = 'stand-7';
+  const meshMap = new Map();
+
+  const report = MeshManager.mapBoothMeshes(scene, [booth('A-1'), booth('A-2'), booth('A-3')], meshMap, 'Hall A', {
+    'A-1': 'Object_12',
+    'A-2': 'stand-7',
+    'A-3': 'Object_99'
+  });
+
+  expect(mappedNames(meshMap)).toEqual({ 'A-1': 'Object_12', 'A-2': 'Object_13' });
+  expect(report.missingManifestMeshes).toEqual([{ boothId: 'A-3', mesh: 'Object_99' }]);
+});
+
+test('sorts meshes in rows from back to front, left to right', () => {
+  const meshAt = (name, x, z) => {
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1));
+    mesh.name = name;
+    mesh.position.set(x, 0, z);
+    mesh.updateMatrixWorld();
+    return mesh;
+  };
+  const meshes = [meshAt('front-right', 3, 4), meshAt('back-right', 3, 0.2), meshAt('front-left', 0, 4), meshAt('back-left', 0, 0)];
+
+  expect(MeshManager.sortMeshesSpatially(meshes).map(mesh => mesh.name))
+    .toEqual(['back-left', 'back-right', 'front-left', 'front-right']);
+});
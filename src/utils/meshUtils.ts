@@ -1,5 +1,16 @@
 import * as THREE from 'three';
 import { Booth } from '../types/booth';
+import { MeshMappingReport, MeshMatchMethod } from '../types/dataQuality';
+
+// Meshes of a model, indexed in one traversal
+export interface MeshIndex {
+  byName: Map<string, THREE.Mesh[]>;
+  byUuid: Map<string, THREE.Mesh>; // userData.uuid from glTF extras (three's own UUIDs change on every load)
+  named: THREE.Mesh[];
+  boothMeshes: THREE.Mesh[]; // Interactive booth meshes
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
 /**
  * Utility class for managing THREE.js mesh operations, particularly booth mesh mapping
@@ -22,98 +33,176 @@ export class MeshManager {
   }
 
   /**
-   * Find a mesh by exact name match in the scene
+   * Index the meshes under a root in a single pass
    */
-  static findMeshByName(scene: THREE.Scene, nameToFind: string): THREE.Mesh | null {
-    let mesh: THREE.Mesh | null = null;
-    scene.traverse((object) => {
-      if (object instanceof THREE.Mesh && object.name === nameToFind) {
-        mesh = object;
+  static buildMeshIndex(root: THREE.Object3D): MeshIndex {
+    const index: MeshIndex = { byName: new Map(), byUuid: new Map(), named: [], boothMeshes: [] };
+
+    root.traverse((object) => {
+      if (!(object instanceof THREE.Mesh)) return;
+
+      // Stable IDs exported as glTF extras
+      if (typeof object.userData.uuid === 'string') {
+        index.byUuid.set(object.userData.uuid, object);
+      }
+      if (object.name) {
+        const meshes = index.byName.get(object.name);
+        if (meshes) {
+          meshes.push(object);
+        } else {
+          index.byName.set(object.name, [object]);
+        }
+        index.named.push(object);
+      }
+      if (object.userData._interactive) {
+        index.boothMeshes.push(object);
       }
     });
-    return mesh;
+
+    return index;
   }
 
   /**
-   * Find a mesh by partial name match for a booth ID
+   * Find meshes whose name contains the booth ID as a whole token,
+   * so B-20 matches "Booth.B-20" but not "BOOTHLAYER_curve_.B-2050"
    */
-  static findMeshByPartialMatch(scene: THREE.Scene, boothId: string): THREE.Mesh | null {
-    let foundMesh: THREE.Mesh | null = null;
-    scene.traverse((object) => {
-      if (object instanceof THREE.Mesh && object.name) {
-        if (object.name.includes(boothId) || 
-            object.name.includes(boothId.replace('-', '_')) ||
-            object.name.includes(boothId.replace('-', ''))) {
-          foundMesh = object;
-        }
-      }
-    });
-    return foundMesh;
+  static findPartialMatches(index: MeshIndex, boothId: string): THREE.Mesh[] {
+    const variants = Array.from(new Set([boothId, boothId.replace('-', '_'), boothId.replace('-', '')]));
+    const pattern = new RegExp(`(^|[^A-Za-z0-9])(${variants.map(escapeRegExp).join('|')})($|[^A-Za-z0-9])`);
+    return index.named.filter(mesh => pattern.test(mesh.name));
   }
 
   /**
-   * Map all booths to their corresponding meshes in the scene
+   * Map all booths to their corresponding meshes in the scene.
+   * Order: the area's mapping manifest, exact name patterns, then unambiguous partial name matches.
    */
   static mapBoothMeshes(
-    scene: THREE.Scene, 
-    booths: Booth[], 
+    scene: THREE.Scene,
+    booths: Booth[],
     meshMap: Map<THREE.Mesh, Booth>,
-    areaName?: string
-  ): void {
+    areaName?: string,
+    manifest: Record<string, string> = {}
+  ): MeshMappingReport {
     console.log(`🏢 Mapping booth meshes for ${areaName || 'area'}`);
     console.log(`  Booths: ${booths.length}`);
-    
+
     // Clear existing mesh map
     meshMap.clear();
-    
-    // Log booth data for debugging
-    console.log('  Booth IDs:', booths.map(b => b.id).slice(0, 10));
-    
-    // Map each booth to its corresponding mesh
+
+    const index = this.buildMeshIndex(scene);
+    const report: MeshMappingReport = {
+      matches: [],
+      unmappedBoothIds: [],
+      ambiguousBooths: [],
+      orphanMeshNames: [],
+      missingManifestMeshes: []
+    };
+    const mapMesh = (booth: Booth, mesh: THREE.Mesh, method: MeshMatchMethod) => {
+      meshMap.set(mesh, booth);
+      report.matches.push({ boothId: booth.id, meshName: mesh.name, method });
+    };
+
+    // Manifest entries and exact names first, so partial matching can't take their meshes
+    const unmatched: Booth[] = [];
     booths.forEach((booth) => {
-      const possibleMeshNames = this.generateMeshNamePatterns(booth.id);
-      
-      console.log(`  Looking for mesh for booth ${booth.id}, trying patterns:`, possibleMeshNames.slice(0, 3));
-      
-      let foundMesh: THREE.Mesh | null = null;
-      
-      // Try exact matches first
-      for (const meshName of possibleMeshNames) {
-        foundMesh = this.findMeshByName(scene, meshName);
-        if (foundMesh) {
-          console.log(`    Found mesh: ${meshName}`);
-          break;
-        }
-      }
-      
-      // Try partial matches if no exact match
-      if (!foundMesh) {
-        foundMesh = this.findMeshByPartialMatch(scene, booth.id);
-        if (foundMesh) {
-          console.log(`    Found mesh by partial match: ${foundMesh.name}`);
+      const manifestEntry = manifest[booth.id];
+      if (manifestEntry) {
+        // The manifest is authoritative: a wrong entry is reported rather than guessed around
+        const namedMeshes = index.byName.get(manifestEntry) || [];
+        const mesh = index.byUuid.get(manifestEntry) || (namedMeshes.length === 1 ? namedMeshes[0] : null);
+        if (mesh) {
+          mapMesh(booth, mesh, 'manifest');
+        } else if (namedMeshes.length > 1) {
+          report.ambiguousBooths.push({ boothId: booth.id, meshNames: namedMeshes.map(mesh => mesh.name) });
+        } else {
+          report.missingManifestMeshes.push({ boothId: booth.id, mesh: manifestEntry });
         }
+        return;
       }
-      
-      if (foundMesh) {
-        // Map this mesh to its booth data
-        meshMap.set(foundMesh, booth);
-        console.log(`    Mapped mesh ${foundMesh.name} to booth ${booth.id}`);
+
+      // Several meshes sharing the booth's exact name are as ambiguous as several partial matches
+      const exactMeshes = this.generateMeshNamePatterns(booth.id)
+        .map(name => (index.byName.get(name) || []).filter(mesh => !meshMap.has(mesh)))
+        .find(meshes => meshes.length > 0);
+      if (exactMeshes && exactMeshes.length === 1) {
+        mapMesh(booth, exactMeshes[0], 'name');
+      } else if (exactMeshes) {
+        report.ambiguousBooths.push({ boothId: booth.id, meshNames: exactMeshes.map(mesh => mesh.name) });
       } else {
-        console.log(`    No mesh found for ${booth.id}`);
+        unmatched.push(booth);
       }
     });
-    
-    console.log(`  Mapped ${meshMap.size} booth meshes`);
-    
-    // List all mesh names for debugging
-    console.log('  All mesh names in scene:');
-    const allMeshNames: string[] = [];
-    scene.traverse((object) => {
-      if (object instanceof THREE.Mesh && object.name) {
-        allMeshNames.push(object.name);
+
+    unmatched.forEach((booth) => {
+      const candidates = this.findPartialMatches(index, booth.id).filter(mesh => !meshMap.has(mesh));
+      if (candidates.length === 1) {
+        console.log(`    Found mesh by partial match for ${booth.id}: ${candidates[0].name}`);
+        mapMesh(booth, candidates[0], 'partial');
+      } else if (candidates.length > 1) {
+        report.ambiguousBooths.push({ boothId: booth.id, meshNames: candidates.map(mesh => mesh.name) });
+      }
+    });
+
+    const mappedIds = new Set(Array.from(meshMap.values()).map(booth => booth.id));
+    report.unmappedBoothIds = booths.filter(booth => !mappedIds.has(booth.id)).map(booth => booth.id);
+    report.orphanMeshNames = index.boothMeshes.filter(mesh => !meshMap.has(mesh)).map(mesh => mesh.name);
+
+    console.log(`  Mapped ${meshMap.size} booth meshes, ${report.unmappedBoothIds.length} booths unmapped, ` +
+      `${report.ambiguousBooths.length} ambiguous, ${report.orphanMeshNames.length} orphan booth meshes`);
+    return report;
+  }
+
+  /**
+   * Find the mapped mesh for a booth ID
+   */
+  static findMeshForBooth(meshMap: Map<THREE.Mesh, Booth>, boothId: string): THREE.Mesh | null {
+    let foundMesh: THREE.Mesh | null = null;
+    meshMap.forEach((booth, mesh) => {
+      if (!foundMesh && booth.id === boothId) {
+        foundMesh = mesh;
       }
     });
-    console.log('   ', allMeshNames.slice(0, 20)); // Show first 20 to avoid console spam
+    return foundMesh;
+  }
+
+  /**
+   * Replace the booth data of mapped meshes with fresh data for the same booth IDs.
+   * Returns the meshes whose booth data changed.
+   */
+  static updateMappedBooths(meshMap: Map<THREE.Mesh, Booth>, booths: Booth[]): THREE.Mesh[] {
+    const boothsById = new Map(booths.map(booth => [booth.id, booth]));
+    const changedMeshes: THREE.Mesh[] = [];
+
+    meshMap.forEach((previousBooth, mesh) => {
+      const booth = boothsById.get(previousBooth.id);
+      if (booth && JSON.stringify(booth) !== JSON.stringify(previousBooth)) {
+        meshMap.set(mesh, booth);
+        changedMeshes.push(mesh);
+      }
+    });
+
+    return changedMeshes;
+  }
+
+  /**
+   * Sort meshes in floor-plan reading order: rows from back to front (by z), left to right within a row.
+   * Rows are as deep as a typical mesh, so booths of one row stay together despite small offsets.
+   */
+  static sortMeshesSpatially(meshes: THREE.Mesh[]): THREE.Mesh[] {
+    const boxes = new Map(meshes.map(mesh => [mesh, new THREE.Box3().setFromObject(mesh)]));
+    const depths = Array.from(boxes.values()).map(box => box.max.z - box.min.z).sort((a, b) => a - b);
+    const rowDepth = depths[Math.floor(depths.length / 2)] || 1;
+
+    const positions = new Map(Array.from(boxes, ([mesh, box]) => {
+      const center = box.getCenter(new THREE.Vector3());
+      return [mesh, { row: Math.round(center.z / rowDepth), x: center.x }];
+    }));
+
+    return [...meshes].sort((a, b) => {
+      const positionA = positions.get(a)!;
+      const positionB = positions.get(b)!;
+      return positionA.row - positionB.row || positionA.x - positionB.x;
+    });
   }
 
   /**
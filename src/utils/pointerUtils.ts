@@ -0,0 +1,113 @@
+export interface PointerGestureHandlers {
+  onHover: (clientX: number, clientY: number) => void; // Mouse or pen moving without a button pressed
+  onTap: (clientX: number, clientY: number, pointerType: string) => void;
+  onLongPress: (clientX: number, clientY: number, pointerType: string) => void; // Touch and pen only
+}
+
+// Pointer that may still become a tap or long press
+interface PressCandidate {
+  pointerId: number;
+  pointerType: string;
+  startX: number;
+  startY: number;
+}
+
+const TAP_MOVE_TOLERANCE = 8; // Pixels a pointer may move and still tap, so small jitters don't become drags
+const LONG_PRESS_DURATION = 550; // Milliseconds
+
+// Screen-space radius in pixels within which a tap picks the nearest booth; mouse clicks must hit
+const TAP_PICK_TOLERANCE: Record<string, number> = {
+  touch: 24,
+  pen: 12,
+  mouse: 0
+};
+
+/**
+ * Get the tap tolerance radius for a pointer type
+ */
+export function getTapPickTolerance(pointerType: string): number {
+  return TAP_PICK_TOLERANCE[pointerType] ?? 0;
+}
+
+/**
+ * Turns pointer events on an element into hover, tap and long-press gestures.
+ * Drags, pinches and rotations (which OrbitControls handles) never count as taps:
+ * a press is dropped once it moves beyond the tolerance or a second pointer goes down.
+ */
+export class PointerGestureTracker {
+  private readonly activePointers = new Set<number>();
+  private candidate: PressCandidate | null = null;
+  private longPressTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly element: HTMLElement, private readonly handlers: PointerGestureHandlers) {
+    element.addEventListener('pointerdown', this.handlePointerDown);
+    element.addEventListener('pointermove', this.handlePointerMove);
+    element.addEventListener('pointerup', this.handlePointerUp);
+    element.addEventListener('pointercancel', this.handlePointerCancel);
+  }
+
+  /**
+   * Remove the listeners and drop any pending press
+   */
+  dispose(): void {
+    this.cancelPress();
+    this.element.removeEventListener('pointerdown', this.handlePointerDown);
+    this.element.removeEventListener('pointermove', this.handlePointerMove);
+    this.element.removeEventListener('pointerup', this.handlePointerUp);
+    this.element.removeEventListener('pointercancel', this.handlePointerCancel);
+  }
+
+  private handlePointerDown = (e: PointerEvent) => {
+    this.activePointers.add(e.pointerId);
+
+    if (this.activePointers.size > 1 || !e.isPrimary || e.button !== 0) {
+      // A second finger starts a pinch or rotation
+      this.cancelPress();
+      return;
+    }
+
+    const candidate: PressCandidate = { pointerId: e.pointerId, pointerType: e.pointerType, startX: e.clientX, startY: e.clientY };
+    this.candidate = candidate;
+    if (e.pointerType !== 'mouse') {
+      this.longPressTimer = setTimeout(() => {
+        this.cancelPress();
+        this.handlers.onLongPress(candidate.startX, candidate.startY, candidate.pointerType);
+      }, LONG_PRESS_DURATION);
+    }
+  };
+
+  private handlePointerMove = (e: PointerEvent) => {
+    const candidate = this.candidate;
+    if (candidate && candidate.pointerId === e.pointerId &&
+      Math.hypot(e.clientX - candidate.startX, e.clientY - candidate.startY) > TAP_MOVE_TOLERANCE) {
+      this.cancelPress();
+    }
+
+    if (e.pointerType !== 'touch' && this.activePointers.size === 0) {
+      this.handlers.onHover(e.clientX, e.clientY);
+    }
+  };
+
+  private handlePointerUp = (e: PointerEvent) => {
+    this.activePointers.delete(e.pointerId);
+
+    const candidate = this.candidate;
+    if (candidate && candidate.pointerId === e.pointerId) {
+      this.cancelPress();
+      this.handlers.onTap(e.clientX, e.clientY, candidate.pointerType);
+    }
+  };
+
+  private handlePointerCancel = (e: PointerEvent) => {
+    this.activePointers.delete(e.pointerId);
+    this.cancelPress();
+  };
+
+  private cancelPress(): void {
+    this.candidate = null;
+    if (this.longPressTimer) {
+      clearTimeout(this.longPressTimer);
+      this.longPressTimer = null;
+    }
+  }
+}
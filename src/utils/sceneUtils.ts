@@ -0,0 +1,514 @@
+import * as THREE from 'three';
+import { GLTF, GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
+import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader';
+import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader';
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
+import { MeshManager } from './meshUtils';
+import { MaterialManager } from './materialUtils';
+
+// Models (including level-of-detail variants) kept loaded for instant switching;
+// the least recently shown ones are disposed beyond this
+const MAX_CACHED_MODELS = 6;
+
+// Draco and KTX2 decoders, copied from three into public/decoders by scripts/copy-decoders.js
+const DECODER_PATH = `${process.env.PUBLIC_URL || ''}/decoders`;
+
+// Relative distance margin before switching back to a coarser level, so levels don't flicker at a threshold
+const LOD_HYSTERESIS = 0.1;
+
+const isMesh = (o: THREE.Object3D): o is THREE.Mesh => (o as THREE.Mesh).isMesh === true;
+
+export interface ModelLoadProgress {
+  url: string;
+  loaded: number; // Bytes received
+  total: number; // Bytes expected, 0 when the server doesn't send a length
+}
+
+export interface ModelLevel {
+  url: string;
+  distance: number; // Shown while the camera is at least this far from its target
+}
+
+export interface ShowModelOptions {
+  fallbackUrl?: string | null; // Lower-detail model to load when the main one fails
+  lods?: ModelLevel[]; // Lower-detail variants; when nothing is cached the coarsest one is shown first
+  onProgress?: (progress: ModelLoadProgress) => void;
+}
+
+interface CachedModel {
+  promise: Promise<THREE.Group>;
+  root: THREE.Group | null; // Set once loaded
+  progressListeners: Set<(progress: ModelLoadProgress) => void>; // Every caller waiting for the load
+  lastProgress: ModelLoadProgress | null; // Replayed to listeners added mid-load
+}
+
+interface AreaLevel extends ModelLevel {
+  key: string; // Cache key
+  root: THREE.Group | null; // Set once loaded
+  requested: boolean; // Loading started (failed levels are not retried)
+}
+
+const modelKey = (areaId: string, url: string): string => `${areaId}|${url}`;
+
+/**
+ * Persistent 3D scene
+ * Creates the renderer, camera, controls and lights once and swaps area models in and out,
+ * keeping loaded models cached so switching areas doesn't reload or re-upload them.
+ */
+export class SceneManager {
+  readonly scene: THREE.Scene;
+  readonly camera: THREE.PerspectiveCamera;
+  readonly renderer: THREE.WebGLRenderer;
+  readonly controls: OrbitControls;
+
+  // Called when level-of-detail switching swaps the shown model
+  onModelChange: ((root: THREE.Group) => void) | null = null;
+
+  private readonly loader: GLTFLoader;
+  private readonly dracoLoader: DRACOLoader;
+  private readonly ktx2Loader: KTX2Loader;
+  private readonly models = new Map<string, CachedModel>(); // By area ID and URL, least recently shown first
+  private currentModel: THREE.Group | null = null;
+  private areaLevels: AreaLevel[] = []; // Levels of the shown area, finest first
+  private requestLevel: ((index: number) => void) | null = null; // Loads a level of the shown area in the background
+  private showRequest = 0; // Bumped per showModel call so superseded loads are not shown
+  private readonly raycaster = new THREE.Raycaster();
+  private readonly pointer = new THREE.Vector2();
+  private animationFrame: number | null = null;
+  private lastLogTime = 0;
+
+  constructor() {
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+
+    this.scene = new THREE.Scene();
+    this.scene.background = new THREE.Color(0xffffff); // White background
+
+    // Camera setup - position to see the full 20x10m floor
+    this.camera = new THREE.PerspectiveCamera(75, width / height, 0.1, 2000);
+    this.camera.position.set(0, 15, 8); // Higher up and angled down to see full floor
+    this.camera.lookAt(0, -1, 0); // Look at the floor
+
+    this.renderer = new THREE.WebGLRenderer({ antialias: true });
+    this.renderer.setSize(width, height);
+    this.renderer.shadowMap.enabled = true;
+    this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+
+    this.controls = new OrbitControls(this.camera, this.renderer.domElement);
+    this.controls.enableDamping = true;      // smoothness
+    this.controls.enableZoom = true;         // incl. zoom
+    this.controls.zoomSpeed = 1.0;           // zoom speed
+    this.controls.minDistance = 2;           // min. distance
+    this.controls.maxDistance = 50;          // max. distance
+    this.controls.enablePan = true;          // panoramic view, if necessary
+
+    // Compressed models: Draco or Meshopt geometry, KTX2 (Basis) textures
+    this.dracoLoader = new DRACOLoader().setDecoderPath(`${DECODER_PATH}/draco/`);
+    this.ktx2Loader = new KTX2Loader().setTranscoderPath(`${DECODER_PATH}/basis/`).detectSupport(this.renderer);
+    this.loader = new GLTFLoader()
+      .setDRACOLoader(this.dracoLoader)
+      .setKTX2Loader(this.ktx2Loader)
+      .setMeshoptDecoder(MeshoptDecoder);
+
+    this.addLights();
+  }
+
+  /**
+   * The model currently shown, or null while none is loaded
+   */
+  get model(): THREE.Group | null {
+    return this.currentModel;
+  }
+
+  /**
+   * Add the canvas to a container and start rendering
+   */
+  attach(container: HTMLElement): void {
+    // Focusable, so arrow keys pan (Shift+arrows orbit) while the scene has focus
+    this.renderer.domElement.tabIndex = 0;
+    this.controls.listenToKeyEvents(this.renderer.domElement);
+    container.appendChild(this.renderer.domElement);
+    window.addEventListener('resize', this.handleResize);
+    this.animate();
+  }
+
+  /**
+   * Whether a model of an area is loaded and can be shown right away (not just loading)
+   */
+  hasModel(areaId: string): boolean {
+    return Array.from(this.models.entries()).some(([key, model]) => key.startsWith(`${areaId}|`) && model.root !== null);
+  }
+
+  /**
+   * Show the model of an area, loading it on first use.
+   * With level-of-detail variants, a cached level (or else the coarsest one) is shown first; the render
+   * loop loads finer levels once the camera first comes close enough for them and switches by camera distance.
+   * Resolves with the model once it is in the scene; a fallback model has userData._fallback set.
+   */
+  async showModel(areaId: string, url: string, modelScale: number = 1, options: ShowModelOptions = {}): Promise<THREE.Group> {
+    const { fallbackUrl = null, lods = [], onProgress } = options;
+    const request = ++this.showRequest;
+    const levels: AreaLevel[] = [{ url, distance: 0 }, ...lods]
+      .sort((a, b) => a.distance - b.distance)
+      .map(level => ({ ...level, key: modelKey(areaId, level.url), root: null, requested: false }));
+    this.areaLevels = levels;
+    this.requestLevel = null;
+
+    const loadLevel = async (index: number, reportProgress: boolean): Promise<THREE.Group> => {
+      const level = levels[index];
+      level.requested = true;
+      // Only the full model falls back to the lower-detail model
+      const root = await this.getModel(areaId, level.url, modelScale, level.distance === 0 ? fallbackUrl : null,
+        reportProgress ? onProgress : undefined);
+      level.root = root;
+      return root;
+    };
+
+    const cachedIndex = levels.findIndex(level => this.models.get(level.key)?.root);
+    const firstIndex = cachedIndex !== -1 ? cachedIndex : levels.length - 1;
+
+    let root: THREE.Group;
+    try {
+      root = await loadLevel(firstIndex, true);
+    } catch (error) {
+      if (firstIndex === 0) throw error;
+      console.warn(`⚠️ Failed to load ${levels[firstIndex].url}, loading the full model instead:`, error);
+      root = await loadLevel(0, true);
+    }
+    if (request !== this.showRequest) {
+      throw new Error(`Showing ${areaId} was superseded by another model`);
+    }
+
+    this.setShownModel(root);
+    this.requestLevel = index => {
+      if (levels[index].requested) return;
+      console.log(`🔭 Loading level of detail ${index} (${levels[index].url})`);
+      loadLevel(index, false).catch(error => console.warn(`⚠️ Could not load level of detail ${levels[index].url}:`, error));
+    };
+
+    this.evictModels();
+    return root;
+  }
+
+  /**
+   * Interactive, visible meshes of the current model under a screen position
+   */
+  pickInteractive(clientX: number, clientY: number): THREE.Intersection[] {
+    if (!this.currentModel) return [];
+
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    this.pointer.x = ((clientX - rect.left) / rect.width) * 2 - 1;
+    this.pointer.y = -((clientY - rect.top) / rect.height) * 2 + 1;
+
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+    return this.raycaster.intersectObjects(this.getInteractiveMeshes(), true);
+  }
+
+  /**
+   * Interactive mesh under a screen position or, failing that, the one whose on-screen bounds
+   * are nearest within a radius in pixels, so imprecise taps still pick small booths
+   */
+  pickNearestInteractive(clientX: number, clientY: number, tolerance: number): THREE.Mesh | null {
+    const hits = this.pickInteractive(clientX, clientY);
+    if (hits.length) return hits[0].object as THREE.Mesh;
+    if (tolerance <= 0) return null;
+
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    const point = new THREE.Vector2(clientX - rect.left, clientY - rect.top);
+    let nearest: THREE.Mesh | null = null;
+    let nearestDistance = tolerance;
+
+    this.getInteractiveMeshes().forEach(mesh => {
+      const bounds = this.getScreenBounds(mesh, rect);
+      if (!bounds) return;
+
+      const distance = bounds.distanceToPoint(point);
+      if (distance <= nearestDistance) {
+        nearest = mesh;
+        nearestDistance = distance;
+      }
+    });
+
+    return nearest;
+  }
+
+  /**
+   * Stop rendering and free the renderer, controls and all cached models
+   */
+  dispose(): void {
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+    window.removeEventListener('resize', this.handleResize);
+    this.renderer.domElement.parentElement?.removeChild(this.renderer.domElement);
+
+    this.models.forEach(model => model.promise.then(root => SceneManager.disposeObject(root), () => {}));
+    this.models.clear();
+    this.currentModel = null;
+    this.areaLevels = [];
+    this.requestLevel = null;
+
+    this.dracoLoader.dispose();
+    this.ktx2Loader.dispose();
+    this.controls.dispose();
+    this.renderer.dispose();
+  }
+
+  // All interactive booth meshes of the current model are pickable (including sold/reserved)
+  private getInteractiveMeshes(): THREE.Mesh[] {
+    const meshes: THREE.Mesh[] = [];
+    this.currentModel?.traverse(o => {
+      if (isMesh(o) && o.userData._interactive && o.visible) {
+        meshes.push(o);
+      }
+    });
+    return meshes;
+  }
+
+  // Pixel rectangle on the canvas covered by a mesh's bounding box, or null when it is behind the camera
+  private getScreenBounds(mesh: THREE.Mesh, rect: DOMRect): THREE.Box2 | null {
+    const box = new THREE.Box3().setFromObject(mesh);
+    const bounds = new THREE.Box2();
+    const corner = new THREE.Vector3();
+
+    for (let i = 0; i < 8; i++) {
+      corner.set(
+        i & 1 ? box.max.x : box.min.x,
+        i & 2 ? box.max.y : box.min.y,
+        i & 4 ? box.max.z : box.min.z
+      ).project(this.camera);
+      if (corner.z > 1) return null;
+
+      bounds.expandByPoint(new THREE.Vector2((corner.x + 1) / 2 * rect.width, (1 - corner.y) / 2 * rect.height));
+    }
+    return bounds;
+  }
+
+  private addLights(): void {
+    const ambientLight = new THREE.AmbientLight(0xffffff, 0.25);
+    this.scene.add(ambientLight);
+
+    // Sky light (sky/ground) for more natural shadows and highlights
+    const hemiLight = new THREE.HemisphereLight(0xffffff, 0x222233, 0.65);
+    hemiLight.position.set(0, 1, 0);
+    this.scene.add(hemiLight);
+
+    const dirLight = new THREE.DirectionalLight(0xffffff, 1.2);
+    dirLight.position.set(12, 18, 10);
+    dirLight.target.position.set(0, 0, 0);
+    dirLight.castShadow = true;
+    dirLight.shadow.mapSize.width = 2048;
+    dirLight.shadow.mapSize.height = 2048;
+    dirLight.shadow.camera.near = 0.5;
+    dirLight.shadow.camera.far = 200;
+    dirLight.shadow.bias = -0.0005;
+    dirLight.shadow.normalBias = 0.02;
+    this.scene.add(dirLight);
+    this.scene.add(dirLight.target);
+  }
+
+  // Get a model from the cache or load it; failed loads are not cached so they can be retried
+  private getModel(
+    areaId: string,
+    url: string,
+    modelScale: number,
+    fallbackUrl: string | null,
+    onProgress?: (progress: ModelLoadProgress) => void
+  ): Promise<THREE.Group> {
+    const key = modelKey(areaId, url);
+    let model = this.models.get(key);
+    if (model) {
+      // Move to the end: most recently shown
+      this.models.delete(key);
+    } else {
+      console.log(`🏗️ Loading model: ${url} for area: ${areaId}`);
+      const cached: CachedModel = {
+        promise: this.loadModelWithFallback(url, modelScale, fallbackUrl, progress => {
+          cached.lastProgress = progress;
+          cached.progressListeners.forEach(listener => listener(progress));
+        }),
+        root: null,
+        progressListeners: new Set(),
+        lastProgress: null
+      };
+      cached.promise.then(root => {
+        cached.root = root;
+      }, () => {
+        if (this.models.get(key) === cached) this.models.delete(key);
+      }).finally(() => cached.progressListeners.clear());
+      model = cached;
+    }
+
+    // Callers joining a pending load still get its progress
+    if (onProgress && !model.root) {
+      model.progressListeners.add(onProgress);
+      if (model.lastProgress) onProgress(model.lastProgress);
+    }
+    this.models.set(key, model);
+    return model.promise;
+  }
+
+  private setShownModel(root: THREE.Group): void {
+    if (this.currentModel === root) return;
+
+    if (this.currentModel) this.scene.remove(this.currentModel);
+    this.currentModel = root;
+    this.scene.add(root);
+    root.updateMatrixWorld(true);
+  }
+
+  // Show the finest loaded level allowed at the current camera distance
+  private updateLevelOfDetail(): void {
+    if (this.areaLevels.length < 2 || !this.currentModel) return;
+
+    const distance = this.camera.position.distanceTo(this.controls.target);
+    const currentIndex = this.areaLevels.findIndex(level => level.root === this.currentModel);
+    if (currentIndex === -1) return;
+
+    // Download a level only once the camera is close enough to need it, so phones viewing the overview skip the full model
+    let neededIndex = 0;
+    this.areaLevels.forEach((level, index) => {
+      if (distance >= level.distance) neededIndex = index;
+    });
+    if (!this.areaLevels[neededIndex].root) {
+      this.requestLevel?.(neededIndex);
+    }
+
+    let targetIndex = -1;
+    this.areaLevels.forEach((level, index) => {
+      if (!level.root) return;
+      // Stay on the current level until the camera is clearly closer than its threshold
+      const threshold = index === currentIndex ? level.distance * (1 - LOD_HYSTERESIS) : level.distance;
+      if (distance >= threshold) targetIndex = index;
+    });
+    if (targetIndex === -1 || targetIndex === currentIndex) return;
+
+    const root = this.areaLevels[targetIndex].root!;
+    console.log(`🔭 Switching to level of detail ${targetIndex} (${this.areaLevels[targetIndex].url}) at distance ${distance.toFixed(1)}`);
+    this.setShownModel(root);
+    this.onModelChange?.(root);
+  }
+
+  // Load the main model, or the fallback model when that fails (reporting the main model's error if both fail)
+  private async loadModelWithFallback(
+    url: string,
+    modelScale: number,
+    fallbackUrl: string | null,
+    onProgress?: (progress: ModelLoadProgress) => void
+  ): Promise<THREE.Group> {
+    try {
+      return await this.loadModel(url, modelScale, onProgress);
+    } catch (error) {
+      if (!fallbackUrl) throw error;
+
+      console.warn(`⚠️ Failed to load ${url}, falling back to ${fallbackUrl}:`, error);
+      try {
+        const root = await this.loadModel(fallbackUrl, modelScale, onProgress);
+        root.userData._fallback = true;
+        return root;
+      } catch (fallbackError) {
+        console.error(`❌ Fallback model ${fallbackUrl} failed too:`, fallbackError);
+        throw error;
+      }
+    }
+  }
+
+  // Load a GLB and prepare it once: interactive booth meshes, shadows, original colors, centering/scale
+  private async loadModel(url: string, modelScale: number, onProgress?: (progress: ModelLoadProgress) => void): Promise<THREE.Group> {
+    const gltf: GLTF = await this.loader.loadAsync(url, event => {
+      onProgress?.({ url, loaded: event.loaded, total: event.lengthComputable ? event.total : 0 });
+    });
+    const root = gltf.scene;
+
+    const allowedNames = ["BOOTHLAYER_curve_*"];
+    let interactiveCount = 0;
+    root.traverse(o => {
+      if (isMesh(o)) {
+        o.userData._interactive = MeshManager.isInteractiveMesh(o, allowedNames);
+        if (o.userData._interactive) interactiveCount++;
+        o.castShadow = true;
+        o.receiveShadow = true;
+        // preserve the original color
+        MaterialManager.storeOriginalColor(o);
+      }
+    });
+    console.log(`🎯 Total interactive meshes marked: ${interactiveCount}`);
+
+    const size = new THREE.Box3().setFromObject(root).getSize(new THREE.Vector3());
+    const maxDim = Math.max(size.x, size.y, size.z);
+    let scale = (10 / (maxDim || 1)) * 2;
+
+    // Apply the per-area model scale from the event manifest
+    if (modelScale !== 1) {
+      scale = scale * modelScale;
+      console.log(`🏗️ Applying ${modelScale}x scale to ${url} (final scale: ${scale.toFixed(3)})`);
+    }
+
+    root.scale.setScalar(scale);
+    root.position.y = 0.01;
+    root.updateMatrixWorld(true);
+    return root;
+  }
+
+  // Dispose the least recently shown models beyond the cache size (never those of the shown area)
+  private evictModels(): void {
+    const keys = Array.from(this.models.keys());
+    const shownKeys = new Set(this.areaLevels.map(level => level.key));
+    const evictable = keys.filter(key => !shownKeys.has(key));
+
+    evictable.slice(0, Math.max(0, keys.length - MAX_CACHED_MODELS)).forEach(key => {
+      const model = this.models.get(key)!;
+      this.models.delete(key);
+      model.promise.then(root => {
+        if (root === this.currentModel) return;
+        console.log(`🗑️ Disposing cached model ${key}`);
+        SceneManager.disposeObject(root);
+      }, () => {});
+    });
+  }
+
+  private static disposeObject(root: THREE.Object3D): void {
+    root.traverse(o => {
+      if (!isMesh(o)) return;
+      o.geometry.dispose();
+      const materials = Array.isArray(o.material) ? o.material : [o.material];
+      materials.forEach(material => {
+        Object.values(material).forEach(value => {
+          if (value instanceof THREE.Texture) value.dispose();
+        });
+        material.dispose();
+      });
+    });
+  }
+
+  private handleResize = (): void => {
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+
+    this.camera.aspect = width / height;
+    this.camera.updateProjectionMatrix();
+    this.renderer.setSize(width, height);
+  };
+
+  private animate = (): void => {
+    this.animationFrame = requestAnimationFrame(this.animate);
+
+    this.controls.update();
+    this.updateLevelOfDetail();
+
+    // Log camera position and target every 1 second
+    const now = Date.now();
+    if (now - this.lastLogTime > 1000) {
+      const pos = this.camera.position;
+      const target = this.controls.target;
+      console.log(`📹 Camera Position: (${pos.x.toFixed(2)}, ${pos.y.toFixed(2)}, ${pos.z.toFixed(2)})`);
+      console.log(`🎯 Camera Look-At: (${target.x.toFixed(2)}, ${target.y.toFixed(2)}, ${target.z.toFixed(2)})`);
+      this.lastLogTime = now;
+    }
+
+    // Render WebGL scene with sprites
+    this.renderer.render(this.scene, this.camera);
+  };
+}
@@ -0,0 +1,27 @@
+import { BoothMatcher } from './searchUtils';
+import { makeBooth } from './testFixtures';
+
+const booths = [
+  makeBooth('B-2050', { name: 'Fjordkraft' }),
+  makeBooth('B-2060', { name: 'Equinor Energy' }),
+  makeBooth('C-105', { name: 'Aker Solutions' })
+];
+
+const search = (query) => BoothMatcher.search(booths, query).map(result => [result.booth.id, result.matchedField]);
+
+test('matches booth IDs regardless of case, spaces and dashes', () => {
+  expect(search('b 2050')).toEqual([['B-2050', 'id']]);
+  expect(search('c105')).toEqual([['C-105', 'id']]);
+});
+
+test('matches exhibitor names by word and ignores diacritics', () => {
+  expect(search('energy')).toEqual([['B-2060', 'name']]);
+  expect(search('Åker')).toEqual([['C-105', 'name']]);
+});
+
+test('ranks partial matches below exact ones and finds names with missing letters', () => {
+  expect(search('B-20')).toEqual([['B-2050', 'id'], ['B-2060', 'id']]);
+  expect(BoothMatcher.scoreText('b2050', 'b2050')).toBeGreaterThan(BoothMatcher.scoreText('b2050', 'b20'));
+  expect(search('fjkraft')).toEqual([['B-2050', 'name']]);
+  expect(search('xyz')).toEqual([]);
+});
@@ -0,0 +1,76 @@
+import { Booth } from '../types/booth';
+
+export interface BoothSearchResult {
+  booth: Booth;
+  score: number;
+  matchedField: 'id' | 'name';
+}
+
+/**
+ * Utility class for fuzzy matching booths by ID and exhibitor name
+ */
+export class BoothMatcher {
+  /**
+   * Normalize text for comparison: lower case, no diacritics, single spaces
+   */
+  static normalize(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Normalize booth IDs so "b2050", "B 2050" and "B-2050" compare equal
+   */
+  static normalizeId(text: string): string {
+    return this.normalize(text).replace(/[\s\-_.]/g, '');
+  }
+
+  /**
+   * Score how well a query matches a text (0 = no match, 100 = exact)
+   */
+  static scoreText(text: string, query: string): number {
+    if (!text || !query) return 0;
+
+    if (text === query) return 100;
+    if (text.startsWith(query)) return 80;
+    if (text.split(' ').some(word => word.startsWith(query))) return 70;
+    if (text.includes(query)) return 60;
+
+    // Subsequence match (typos with missing letters, e.g. "fjkraft"), penalized by gaps
+    let textIndex = 0;
+    let gaps = 0;
+    for (const char of query) {
+      const foundIndex = text.indexOf(char, textIndex);
+      if (foundIndex === -1) return 0;
+      gaps += foundIndex - textIndex;
+      textIndex = foundIndex + 1;
+    }
+    return Math.max(10, 40 - gaps * 2);
+  }
+
+  /**
+   * Search booths by ID and exhibitor name, best matches first
+   */
+  static search(booths: Booth[], query: string, limit: number = 8): BoothSearchResult[] {
+    const normalizedQuery = this.normalize(query);
+    if (!normalizedQuery) return [];
+
+    const idQuery = this.normalizeId(query);
+
+    return booths
+      .map(booth => {
+        const idScore = this.scoreText(this.normalizeId(booth.id), idQuery);
+        const nameScore = this.scoreText(this.normalize(booth.name || ''), normalizedQuery);
+        return idScore >= nameScore
+          ? { booth, score: idScore, matchedField: 'id' as const }
+          : { booth, score: nameScore, matchedField: 'name' as const };
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score || a.booth.id.localeCompare(b.booth.id))
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,26 @@
+import { BoothStatistics } from './statsUtils';
+import { makeBooth } from './testFixtures';
+
+const booth = (id, status, area) => makeBooth(id, { status, area });
+
+test('computes per-hall statistics without dividing by zero', () => {
+  const event = {
+    id: 'energy',
+    name: 'Energy',
+    boothIdPrefixes: ['B-', 'C-'],
+    areas: [{ id: 'Hall_B_2', name: 'Hall B', boothIdPrefixes: ['B-'] }]
+  };
+  const groups = BoothStatistics.computeGroups(event, [
+    booth('B-1', 'sold', 12),
+    booth('B-2', 'reserved', 8),
+    booth('B-3', 'available', 20),
+    booth('B-4', 'sold', NaN),
+    booth('B-5', 'on-hold', 10)
+  ]);
+
+  expect(groups.map(group => group.label)).toEqual(['Energy', 'Hall B', 'Hall C']);
+  expect(groups[1].stats).toEqual({
+    total: 5, sold: 2, reserved: 1, available: 1, other: 1, totalArea: 50, soldArea: 12, soldPercent: 40
+  });
+  expect(groups[2].stats.soldPercent).toBe(0);
+});
@@ -0,0 +1,81 @@
+import { Booth } from '../types/booth';
+import { EventConfig } from '../types/event';
+import { getStatusStyle } from '../config/statusTheme';
+
+export interface BoothStats {
+  total: number;
+  sold: number;
+  reserved: number;
+  available: number;
+  other: number; // Taken booths that are neither sold nor reserved (on hold, sponsor, ...)
+  totalArea: number; // m²
+  soldArea: number; // m²
+  soldPercent: number; // 0-100, 0 when there are no booths
+}
+
+export interface BoothStatsGroup {
+  key: string; // Stable key, e.g. "energy" or "energy:B-"
+  label: string;
+  stats: BoothStats;
+}
+
+/**
+ * Utility class for booth sales statistics
+ */
+export class BoothStatistics {
+  /**
+   * Count booths per status and sum their areas
+   */
+  static compute(booths: Booth[]): BoothStats {
+    const stats: BoothStats = { total: 0, sold: 0, reserved: 0, available: 0, other: 0, totalArea: 0, soldArea: 0, soldPercent: 0 };
+
+    booths.forEach(booth => {
+      const area = Number.isFinite(booth.area) ? booth.area : 0;
+      stats.total++;
+      stats.totalArea += area;
+
+      if (booth.status === 'sold') {
+        stats.sold++;
+        stats.soldArea += area;
+      } else if (booth.status === 'reserved') {
+        stats.reserved++;
+      } else if (getStatusStyle(booth.status).forSale) {
+        stats.available++;
+      } else {
+        stats.other++;
+      }
+    });
+
+    stats.soldPercent = stats.total > 0 ? (stats.sold / stats.total) * 100 : 0;
+    return stats;
+  }
+
+  /**
+   * Label for a hall prefix: the name of the area showing only that hall, or "Hall B" for "B-"
+   */
+  static getHallLabel(event: EventConfig, prefix: string): string {
+    const hallArea = event.areas.find(area =>
+      area.boothIdPrefixes.length === 1 && area.boothIdPrefixes[0] === prefix
+    );
+    return hallArea ? hallArea.name : `Hall ${prefix.replace(/[-_\s]+$/, '')}`;
+  }
+
+  /**
+   * Statistics for the whole event followed by one group per hall prefix
+   */
+  static computeGroups(event: EventConfig, booths: Booth[]): BoothStatsGroup[] {
+    const groups: BoothStatsGroup[] = [
+      { key: event.id, label: event.name, stats: this.compute(booths) }
+    ];
+
+    (event.boothIdPrefixes || []).forEach(prefix => {
+      groups.push({
+        key: `${event.id}:${prefix}`,
+        label: this.getHallLabel(event, prefix),
+        stats: this.compute(booths.filter(booth => booth.id.startsWith(prefix)))
+      });
+    });
+
+    return groups;
+  }
+}
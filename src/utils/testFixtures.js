@@ -0,0 +1,2 @@
+// Booth with empty values for the fields a test doesn't care about
+export const makeBooth = (id, fields = {}) => ({ id, name: '', width: 0, height: 0, area: 0, status: 'available', color: '', ...fields });
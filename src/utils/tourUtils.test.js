@@ -0,0 +1,22 @@
+import { getMotionPose, getOrbitPose, interleaveSpotlights } from './tourUtils';
+
+const waypoint = { x: 0, y: 4, z: 4, targetX: 0, targetY: 0, targetZ: 0 };
+
+const rounded = (pose) => Object.fromEntries(Object.entries(pose).map(([key, value]) => [key, Math.round(value * 1000) / 1000 + 0]));
+
+test('orbits around the point the camera looks at on the floor', () => {
+  expect(rounded(getOrbitPose(waypoint, Math.PI / 2))).toEqual({ x: 4, y: 4, z: 0, targetX: 0, targetY: 0, targetZ: 0 });
+  expect(rounded(getMotionPose(waypoint, { type: 'orbit' }, 1))).toEqual(rounded(waypoint));
+});
+
+test('pans camera and target together', () => {
+  expect(getMotionPose(waypoint, { type: 'pan', x: 2, z: -1 }, 1)).toEqual({ x: 2, y: 4, z: 3, targetX: 2, targetY: 0, targetZ: -1 });
+});
+
+test('interleaves booth spotlights between scripted steps', () => {
+  const steps = ['hall', 'stage'].map(caption => ({ camera: waypoint, caption }));
+  const spotlights = ['A-1', 'A-2', 'A-3'].map(spotlightBooth => ({ camera: waypoint, spotlightBooth }));
+
+  expect(interleaveSpotlights(steps, spotlights, 2).map(step => step.caption || step.spotlightBooth))
+    .toEqual(['hall', 'A-1', 'A-2', 'stage', 'A-3']);
+});
@@ -0,0 +1,253 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
+import { CameraPosition, TourMotion, TourScript, TourSpotlight, TourStep } from '../types/event';
+import { CameraAnimator, EASINGS } from './cameraUtils';
+
+export type TourState = 'stopped' | 'running' | 'paused';
+
+// Tour controls exposed as window.exhibitionTour for kiosk launcher scripts
+export interface ExhibitionTourApi {
+  start: () => void;
+  stop: () => void;
+  pause: () => void;
+  resume: () => void;
+  getState: () => TourState;
+}
+
+declare global {
+  interface Window {
+    exhibitionTour?: ExhibitionTourApi;
+  }
+}
+
+export interface TourCallbacks {
+  onStep?: (step: TourStep, index: number) => void; // A step starts (captions)
+  onArrive?: (step: TourStep, index: number) => void; // The camera reached the step's waypoint (highlights)
+  onStateChange?: (state: TourState) => void;
+  onComplete?: () => void; // A script that doesn't loop played its last step
+}
+
+type TourPhase = 'fly' | 'motion' | 'dwell';
+
+const DEFAULT_FLY_DURATION = 4000;
+const DEFAULT_ORBIT_DURATION = 10000;
+const DEFAULT_PAN_DURATION = 6000;
+
+export const DEFAULT_SPOTLIGHT: Required<TourSpotlight> = {
+  boothsPerStop: 2,
+  dwell: 6000,
+  flyDuration: 2500
+};
+
+const lerpPose = (from: CameraPosition, to: CameraPosition, t: number): CameraPosition => ({
+  x: from.x + (to.x - from.x) * t,
+  y: from.y + (to.y - from.y) * t,
+  z: from.z + (to.z - from.z) * t,
+  targetX: from.targetX + (to.targetX - from.targetX) * t,
+  targetY: from.targetY + (to.targetY - from.targetY) * t,
+  targetZ: from.targetZ + (to.targetZ - from.targetZ) * t
+});
+
+/**
+ * Camera pose after orbiting a waypoint by an angle. The camera circles, at its height, around the
+ * point where its view ray meets the floor (y = 0) and keeps looking at the waypoint's target.
+ */
+export function getOrbitPose(waypoint: CameraPosition, angle: number): CameraPosition {
+  const cameraPos = new THREE.Vector3(waypoint.x, waypoint.y, waypoint.z);
+  const targetPos = new THREE.Vector3(waypoint.targetX, waypoint.targetY, waypoint.targetZ);
+
+  // A view ray that never reaches the floor circles around the target instead
+  const direction = targetPos.clone().sub(cameraPos).normalize();
+  const pivot = direction.y < -1e-6
+    ? cameraPos.clone().add(direction.multiplyScalar(-cameraPos.y / direction.y))
+    : targetPos.clone();
+
+  const radius = Math.hypot(cameraPos.x - pivot.x, cameraPos.z - pivot.z);
+  const currentAngle = Math.atan2(cameraPos.x - pivot.x, cameraPos.z - pivot.z) + angle;
+
+  return {
+    ...waypoint,
+    x: pivot.x + Math.sin(currentAngle) * radius,
+    z: pivot.z + Math.cos(currentAngle) * radius
+  };
+}
+
+/**
+ * Camera pose part-way (0..1) through a motion from a waypoint
+ */
+export function getMotionPose(waypoint: CameraPosition, motion: TourMotion, progress: number): CameraPosition {
+  if (motion.type === 'orbit') {
+    // Constant speed, so a full orbit flows into the next step
+    return getOrbitPose(waypoint, THREE.MathUtils.degToRad(motion.degrees ?? 360) * progress);
+  }
+
+  const eased = EASINGS.easeInOutSine(progress);
+  return {
+    x: waypoint.x + motion.x * eased,
+    y: waypoint.y,
+    z: waypoint.z + motion.z * eased,
+    targetX: waypoint.targetX + motion.x * eased,
+    targetY: waypoint.targetY,
+    targetZ: waypoint.targetZ + motion.z * eased
+  };
+}
+
+/**
+ * Insert spotlight steps after each scripted step, a few at a time, until they run out
+ */
+export function interleaveSpotlights(steps: TourStep[], spotlights: TourStep[], perStop: number): TourStep[] {
+  const queue = [...spotlights];
+  return steps.flatMap(step => [step, ...queue.splice(0, Math.max(0, perStop))]);
+}
+
+/**
+ * Attract-mode tour player
+ * Plays a declarative tour script on the camera: each step flies to a waypoint, plays an
+ * optional orbit or pan, then dwells. Time only advances while running, so pausing holds the view.
+ */
+export class TourEngine {
+  private script: TourScript | null = null;
+  private stepIndex = 0;
+  private phase: TourPhase = 'fly';
+  private phaseElapsed = 0; // Milliseconds spent running in the current phase
+  private flyFrom: CameraPosition | null = null;
+  private currentState: TourState = 'stopped';
+  private animationFrame: number | null = null;
+  private lastFrameTime = 0;
+
+  constructor(
+    private readonly camera: THREE.Camera,
+    private readonly controls: OrbitControls,
+    private readonly callbacks: TourCallbacks = {}
+  ) {}
+
+  get state(): TourState {
+    return this.currentState;
+  }
+
+  /**
+   * Whether a tour is running or paused
+   */
+  get isActive(): boolean {
+    return this.currentState !== 'stopped';
+  }
+
+  /**
+   * Start a tour from a step (restarts a tour that is already playing)
+   */
+  start(script: TourScript, fromStep: number = 0): void {
+    if (script.steps.length === 0) return;
+
+    this.cancelFrame();
+    this.script = script;
+    console.log(`🎬 Starting tour with ${script.steps.length} steps`);
+    this.setState('running');
+    this.beginStep(fromStep % script.steps.length);
+    this.requestFrame();
+  }
+
+  stop(): void {
+    if (this.currentState === 'stopped') return;
+
+    this.cancelFrame();
+    this.script = null;
+    console.log('🛑 Tour stopped');
+    this.setState('stopped');
+  }
+
+  pause(): void {
+    if (this.currentState !== 'running') return;
+
+    this.cancelFrame();
+    console.log('⏸️ Tour paused');
+    this.setState('paused');
+  }
+
+  resume(): void {
+    if (this.currentState !== 'paused') return;
+
+    console.log('▶️ Tour resumed');
+    this.setState('running');
+    this.requestFrame();
+  }
+
+  private setState(state: TourState): void {
+    this.currentState = state;
+    this.callbacks.onStateChange?.(state);
+  }
+
+  private beginStep(index: number): void {
+    const step = this.script!.steps[index];
+    this.stepIndex = index;
+    this.flyFrom = CameraAnimator.getCurrentPosition(this.camera, this.controls);
+    this.enterPhase('fly');
+    this.callbacks.onStep?.(step, index);
+  }
+
+  private enterPhase(phase: TourPhase): void {
+    this.phase = phase;
+    this.phaseElapsed = 0;
+  }
+
+  private requestFrame(): void {
+    this.lastFrameTime = performance.now();
+    this.animationFrame = requestAnimationFrame(this.tick);
+  }
+
+  private cancelFrame(): void {
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+  }
+
+  private tick = (time: number) => {
+    this.animationFrame = null;
+    this.phaseElapsed += Math.max(0, time - this.lastFrameTime);
+    this.lastFrameTime = time;
+
+    this.update();
+    // Callbacks may have stopped or paused the tour
+    if (this.currentState === 'running' && this.animationFrame === null) {
+      this.animationFrame = requestAnimationFrame(this.tick);
+    }
+  };
+
+  private update(): void {
+    const script = this.script;
+    if (!script) return;
+    const step = script.steps[this.stepIndex];
+
+    if (this.phase === 'fly') {
+      const duration = step.flyDuration ?? DEFAULT_FLY_DURATION;
+      const progress = duration > 0 ? Math.min(this.phaseElapsed / duration, 1) : 1;
+      this.applyPose(lerpPose(this.flyFrom!, step.camera, EASINGS.easeInOutCubic(progress)));
+      if (progress < 1) return;
+
+      this.enterPhase(step.motion ? 'motion' : 'dwell');
+      this.callbacks.onArrive?.(step, this.stepIndex);
+    } else if (this.phase === 'motion' && step.motion) {
+      const defaultDuration = step.motion.type === 'orbit' ? DEFAULT_ORBIT_DURATION : DEFAULT_PAN_DURATION;
+      const duration = step.motion.duration ?? defaultDuration;
+      const progress = duration > 0 ? Math.min(this.phaseElapsed / duration, 1) : 1;
+      this.applyPose(getMotionPose(step.camera, step.motion, progress));
+      if (progress >= 1) {
+        this.enterPhase('dwell');
+      }
+    } else if (this.phaseElapsed >= (step.dwell ?? 0)) {
+      const nextIndex = this.stepIndex + 1;
+      if (nextIndex < script.steps.length) {
+        this.beginStep(nextIndex);
+      } else if (script.loop !== false) {
+        this.beginStep(0);
+      } else {
+        this.stop();
+        this.callbacks.onComplete?.();
+      }
+    }
+  }
+
+  private applyPose(pose: CameraPosition): void {
+    CameraAnimator.setCameraPosition(this.camera, this.controls, pose);
+  }
+}
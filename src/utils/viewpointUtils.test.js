@@ -0,0 +1,19 @@
+import { ViewpointEditorManager } from './viewpointUtils';
+
+const camera = { x: 1.234, y: 7.199, z: -0.001, targetX: 0, targetY: 0.925, targetZ: -1.74 };
+
+test('captures rounded viewpoints under unused names', () => {
+  const viewpoints = [ViewpointEditorManager.createViewpoint('Viewpoint 2', camera)];
+
+  expect(viewpoints[0]).toEqual({ name: 'Viewpoint 2', x: 1.23, y: 7.2, z: 0, targetX: 0, targetY: 0.93, targetZ: -1.74 });
+  expect(ViewpointEditorManager.getUnusedName(viewpoints)).toBe('Viewpoint 3');
+});
+
+test('reorders viewpoints and exports them as an events.json array', () => {
+  const viewpoints = ['Overview', 'Hall B'].map(name => ViewpointEditorManager.createViewpoint(name, camera));
+  const reordered = ViewpointEditorManager.moveViewpoint(viewpoints, 1, -1);
+
+  expect(reordered.map(viewpoint => viewpoint.name)).toEqual(['Hall B', 'Overview']);
+  expect(ViewpointEditorManager.moveViewpoint(viewpoints, 0, -1)).toBe(viewpoints);
+  expect(JSON.parse(ViewpointEditorManager.createJsonExport(reordered))).toEqual(reordered);
+});
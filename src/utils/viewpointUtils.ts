@@ -0,0 +1,84 @@
+import { CameraPosition, Viewpoint } from '../types/event';
+
+const VIEWPOINT_PRECISION = 2; // Decimals kept for captured coordinates, as in events.json
+
+const round = (value: number): number => {
+  const factor = Math.pow(10, VIEWPOINT_PRECISION);
+  return Math.round(value * factor) / factor + 0; // + 0 turns -0 into 0
+};
+
+/**
+ * Viewpoint editor helpers
+ * Pure list operations behind the viewpoint editor (?debug=viewpoints), which captures
+ * named camera views and exports them as the "viewpoints" array of an area in events.json.
+ */
+export class ViewpointEditorManager {
+  /**
+   * Check whether the viewpoint editor was requested with ?debug=viewpoints
+   */
+  static isEnabled(): boolean {
+    return new URLSearchParams(window.location.search).get('debug') === 'viewpoints';
+  }
+
+  /**
+   * Create a viewpoint from a camera position, with rounded coordinates
+   */
+  static createViewpoint(name: string, camera: CameraPosition): Viewpoint {
+    return {
+      name,
+      x: round(camera.x),
+      y: round(camera.y),
+      z: round(camera.z),
+      targetX: round(camera.targetX),
+      targetY: round(camera.targetY),
+      targetZ: round(camera.targetZ)
+    };
+  }
+
+  /**
+   * Suggest a name not used yet, e.g. "Viewpoint 3"
+   */
+  static getUnusedName(viewpoints: Viewpoint[], baseName: string = 'Viewpoint'): string {
+    const names = new Set(viewpoints.map(viewpoint => viewpoint.name));
+    let number = viewpoints.length + 1;
+    while (names.has(`${baseName} ${number}`)) {
+      number++;
+    }
+    return `${baseName} ${number}`;
+  }
+
+  /**
+   * Move a viewpoint up (-1) or down (1); moves past either end leave the list unchanged
+   */
+  static moveViewpoint(viewpoints: Viewpoint[], index: number, offset: -1 | 1): Viewpoint[] {
+    const newIndex = index + offset;
+    if (index < 0 || index >= viewpoints.length || newIndex < 0 || newIndex >= viewpoints.length) {
+      return viewpoints;
+    }
+
+    const moved = [...viewpoints];
+    [moved[index], moved[newIndex]] = [moved[newIndex], moved[index]];
+    return moved;
+  }
+
+  /**
+   * Find names used by more than one viewpoint (tour steps refer to viewpoints by name)
+   */
+  static findDuplicateNames(viewpoints: Viewpoint[]): string[] {
+    const seen = new Set<string>();
+    const duplicates = new Set<string>();
+    viewpoints.forEach(({ name }) => {
+      if (seen.has(name)) duplicates.add(name);
+      seen.add(name);
+    });
+    return Array.from(duplicates);
+  }
+
+  /**
+   * Format viewpoints as the "viewpoints" array of an area in events.json, one viewpoint per line
+   */
+  static createJsonExport(viewpoints: Viewpoint[]): string {
+    const lines = viewpoints.map(viewpoint => `  ${JSON.stringify(viewpoint)}`);
+    return lines.length > 0 ? `[\n${lines.join(',\n')}\n]\n` : '[]\n';
+  }
+}